@@ -0,0 +1,199 @@
+// Analysis Cache
+// Keeps analysis results in IndexedDB, keyed by audio content hash and analysis parameters
+
+import type { AnalysisSettings, CachedAnalysis, CacheUsage } from './types.js';
+
+const DB_NAME = 'webfft-analysis-cache';
+const DB_VERSION = 1;
+
+// Small per-entry records scanned for eviction, and the window data they describe
+const ENTRY_STORE = 'entries';
+const DATA_STORE = 'data';
+
+// Total size of cached window data; least recently used entries are evicted beyond it
+export const CACHE_SIZE_LIMIT = 256 * 1024 * 1024;
+
+/**
+ * Eviction record for one cached analysis
+ */
+interface CacheEntry {
+    key: string;
+    size: number;
+    lastUsed: number;
+}
+
+// Opened once and shared; reset if opening fails so a later call can retry
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and on first use create) the cache database
+ * @returns Database connection
+ */
+function openDatabase(): Promise<IDBDatabase> {
+    if (!databasePromise) {
+        databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(ENTRY_STORE, { keyPath: 'key' });
+                request.result.createObjectStore(DATA_STORE, { keyPath: 'key' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        databasePromise.catch(() => { databasePromise = null; });
+    }
+    return databasePromise;
+}
+
+/**
+ * Wait for an IndexedDB request to finish
+ * @param request - Pending request
+ * @returns Request result
+ */
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Wait for a transaction to commit
+ * @param transaction - Open transaction
+ */
+function transactionComplete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/**
+ * Build the cache key for an analysis
+ * Only parameters that change the window data are included; layout and subdivision are not.
+ * @param sha256 - Content hash of the audio file
+ * @param settings - Analysis settings
+ * @param offsetSeconds - Offset in seconds (beat tracking starts from it)
+ * @returns Cache key
+ */
+export function buildCacheKey(sha256: string, settings: AnalysisSettings, offsetSeconds: number): string {
+    return JSON.stringify([
+        sha256,
+        settings.tempoMap.map(segment => [segment.time, segment.bpm]),
+        settings.samplesPerBeat,
+        settings.windowSize,
+        settings.vizMode,
+        settings.vizMode === 'balance' ? null : settings.channelSource,
+        settings.vizMode === 'mono' ? settings.monoFeature : null,
+        settings.vizMode === 'onset' ? settings.onsetMethod : null,
+        settings.vizMode === 'rgb' ? settings.rgbSources : null,
+        settings.vizMode === 'rgb' && settings.rgbSources.includes('band')
+            ? [settings.lowMidCutoff, settings.midHighCutoff]
+            : null,
+        settings.vizMode === 'bands'
+            ? [settings.windowFunction, settings.spectralBands.map(band => [band.low, band.high])]
+            : null,
+        settings.driftCorrection ? offsetSeconds : null
+    ]);
+}
+
+/**
+ * Get the size of an analysis's window data
+ * @param analysis - Cached analysis
+ * @returns Size in bytes
+ */
+function getAnalysisSize(analysis: CachedAnalysis): number {
+    let size = 0;
+    for (const grid of analysis.grids) {
+        if (grid.cachedPowers) size += grid.cachedPowers.byteLength;
+        if (grid.cachedBalance) size += grid.cachedBalance.byteLength;
+        for (const band of grid.cachedBandPowers ?? []) size += band.byteLength;
+        for (const pitchClass of grid.cachedChroma ?? []) size += pitchClass.byteLength;
+        if (grid.cachedRGBPowers) {
+            size += grid.cachedRGBPowers.low.byteLength
+                + grid.cachedRGBPowers.mid.byteLength
+                + grid.cachedRGBPowers.high.byteLength;
+        }
+    }
+    return size;
+}
+
+/**
+ * Look up a cached analysis and mark it as recently used
+ * @param key - Cache key from buildCacheKey
+ * @returns Cached analysis, or null on a miss
+ */
+export async function getCachedAnalysis(key: string): Promise<CachedAnalysis | null> {
+    const database = await openDatabase();
+    const transaction = database.transaction([ENTRY_STORE, DATA_STORE], 'readwrite');
+    const done = transactionComplete(transaction);
+
+    const record = await requestResult<(CachedAnalysis & { key: string }) | undefined>(
+        transaction.objectStore(DATA_STORE).get(key)
+    );
+    if (record) {
+        const entries = transaction.objectStore(ENTRY_STORE);
+        const entry = await requestResult<CacheEntry | undefined>(entries.get(key));
+        if (entry) entries.put({ ...entry, lastUsed: Date.now() });
+    }
+    await done;
+
+    return record ? { grids: record.grids, tracking: record.tracking } : null;
+}
+
+/**
+ * Store an analysis, then evict least recently used entries beyond the size limit
+ * Analyses larger than the whole limit are not stored.
+ * @param key - Cache key from buildCacheKey
+ * @param analysis - Analysis to store
+ */
+export async function putCachedAnalysis(key: string, analysis: CachedAnalysis): Promise<void> {
+    const size = getAnalysisSize(analysis);
+    if (size > CACHE_SIZE_LIMIT) return;
+
+    const database = await openDatabase();
+    const transaction = database.transaction([ENTRY_STORE, DATA_STORE], 'readwrite');
+    const done = transactionComplete(transaction);
+    const entries = transaction.objectStore(ENTRY_STORE);
+    const data = transaction.objectStore(DATA_STORE);
+
+    const newEntry: CacheEntry = { key, size, lastUsed: Date.now() };
+    data.put({ key, grids: analysis.grids, tracking: analysis.tracking });
+    entries.put(newEntry);
+
+    // Oldest first; the entry just stored is the newest
+    const all = await requestResult<CacheEntry[]>(entries.getAll());
+    all.sort((a, b) => a.lastUsed - b.lastUsed);
+    let total = all.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of all) {
+        if (total <= CACHE_SIZE_LIMIT) break;
+        entries.delete(entry.key);
+        data.delete(entry.key);
+        total -= entry.size;
+    }
+
+    await done;
+}
+
+/**
+ * Get the number and total size of cached analyses
+ * @returns Cache usage
+ */
+export async function getCacheUsage(): Promise<CacheUsage> {
+    const database = await openDatabase();
+    const transaction = database.transaction(ENTRY_STORE, 'readonly');
+    const all = await requestResult<CacheEntry[]>(transaction.objectStore(ENTRY_STORE).getAll());
+    return { entries: all.length, bytes: all.reduce((sum, entry) => sum + entry.size, 0) };
+}
+
+/**
+ * Remove every cached analysis
+ */
+export async function clearAnalysisCache(): Promise<void> {
+    const database = await openDatabase();
+    const transaction = database.transaction([ENTRY_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(ENTRY_STORE).clear();
+    transaction.objectStore(DATA_STORE).clear();
+    await transactionComplete(transaction);
+}
@@ -0,0 +1,123 @@
+// Analysis Job Runner
+// Runs window analysis and beat tracking in a Web Worker with streamed progress and cancellation
+
+import type { AnalysisRequest, AnalysisResponse, BeatTrackingRequest, BeatTrackingResult, WorkerRequest } from './types.js';
+
+// Worker bundle, relative to the page
+const WORKER_URL = 'dist/worker.js';
+
+// Worker is kept between jobs and replaced after a cancelled job
+let worker: Worker | null = null;
+
+/**
+ * Post a job to the worker and wait for it to finish
+ * @param request - Job to run
+ * @param transfer - Buffers handed over to the worker
+ * @param onResponse - Called with each message; returns the job's result once it is done, undefined until then
+ * @param signal - Abort signal; aborting terminates the worker and rejects with an AbortError
+ * @returns Result of the job
+ */
+function runWorkerJob<T>(
+    request: WorkerRequest,
+    transfer: Transferable[],
+    onResponse: (message: AnalysisResponse) => T | undefined,
+    signal: AbortSignal
+): Promise<T> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(new DOMException('Analysis cancelled', 'AbortError'));
+            return;
+        }
+
+        if (!worker) worker = new Worker(WORKER_URL);
+        const activeWorker = worker;
+
+        const cleanup = () => {
+            signal.removeEventListener('abort', handleAbort);
+            activeWorker.onmessage = null;
+            activeWorker.onerror = null;
+        };
+
+        const discardWorker = () => {
+            activeWorker.terminate();
+            if (worker === activeWorker) worker = null;
+        };
+
+        function handleAbort(): void {
+            cleanup();
+            discardWorker();
+            reject(new DOMException('Analysis cancelled', 'AbortError'));
+        }
+
+        signal.addEventListener('abort', handleAbort);
+
+        activeWorker.onmessage = (e: MessageEvent<AnalysisResponse>) => {
+            const result = onResponse(e.data);
+            if (result !== undefined) {
+                cleanup();
+                resolve(result);
+            }
+        };
+
+        activeWorker.onerror = (e: ErrorEvent) => {
+            cleanup();
+            discardWorker();
+            reject(new Error(e.message || 'Analysis worker failed'));
+        };
+
+        activeWorker.postMessage(request, transfer);
+    });
+}
+
+/**
+ * Run per-window analysis in the worker
+ * The request's typed arrays are transferred to the worker, so callers must not reuse them.
+ * @param request - Channels to analyse, window start samples for each grid and optional band or chroma analysis
+ * @param onChunk - Called with each chunk of results as it arrives
+ * @param signal - Abort signal; aborting terminates the worker and rejects with an AbortError
+ * @returns Per-grid, per-channel (or per-band) window powers
+ */
+export function runWindowAnalysis(
+    request: AnalysisRequest,
+    onChunk: (grid: number, start: number, powers: Float32Array[]) => void,
+    signal: AbortSignal
+): Promise<Float32Array[][]> {
+    // One output per channel, per band for spectral analysis, or power plus 12 pitch classes for chroma
+    const outputs = request.spectrum ? request.spectrum.bandBins.length
+        : request.chroma ? 13
+        : request.channels.length;
+    const results = request.grids.map(windowStarts =>
+        Array.from({ length: outputs }, () => new Float32Array(windowStarts.length))
+    );
+
+    const transfer = [
+        ...request.channels.map(channel => channel.buffer),
+        ...request.grids.map(windowStarts => windowStarts.buffer)
+    ];
+    return runWorkerJob(request, transfer, message => {
+        if (message.type === 'chunk') {
+            message.powers.forEach((chunk, channel) => {
+                results[message.grid][channel].set(chunk, message.start);
+            });
+            onChunk(message.grid, message.start, message.powers);
+            return undefined;
+        }
+        return message.type === 'done' ? results : undefined;
+    }, signal);
+}
+
+/**
+ * Track beats in the worker, so a long track neither blocks the page nor outlasts a cancel
+ * The audio is transferred to the worker, so callers must not reuse it.
+ * @param request - Mixed-down audio, nominal tempo map and offset
+ * @param signal - Abort signal; aborting terminates the worker and rejects with an AbortError
+ * @returns Tracked beats, drift and corrected tempo map
+ */
+export function runBeatTracking(request: BeatTrackingRequest, signal: AbortSignal): Promise<BeatTrackingResult> {
+    return runWorkerJob(
+        request,
+        [request.audio.buffer],
+        message => message.type === 'tracked' ? message.tracking : undefined,
+        signal
+    );
+}
@@ -0,0 +1,59 @@
+// Analysis Worker
+// Computes per-window RMS, features, band power or chroma off the main thread and streams it back in chunks,
+// and tracks beats for drift correction
+
+import { computeWindowPowers } from './audio-processor.js';
+import { trackBeats } from './beat-tracker.js';
+import { computeWindowFeature } from './features.js';
+import { computeWindowBandPowers, computeWindowChroma, createWindowFunction } from './spectrum.js';
+import type { AnalysisResponse, WorkerRequest } from './types.js';
+
+// Windows per streamed chunk
+const CHUNK_SIZE = 8192;
+
+const workerScope = self as unknown as Worker;
+
+workerScope.onmessage = (e: MessageEvent<WorkerRequest>) => {
+    if ('audio' in e.data) {
+        const { audio, sampleRate, tempoMap, offsetSeconds } = e.data;
+        const message: AnalysisResponse = { type: 'tracked', tracking: trackBeats(audio, sampleRate, tempoMap, offsetSeconds) };
+        workerScope.postMessage(message);
+        return;
+    }
+
+    const { channels, grids, windowSize, spectrum, chroma, features } = e.data;
+    const window = spectrum ? createWindowFunction(spectrum.windowFunction, windowSize)
+        : chroma ? createWindowFunction('hann', windowSize)
+        : null;
+
+    grids.forEach((windowStarts, grid) => {
+        for (let start = 0; start < windowStarts.length; start += CHUNK_SIZE) {
+            const end = Math.min(start + CHUNK_SIZE, windowStarts.length);
+
+            const chunkStarts = windowStarts.subarray(start, end);
+            let powers: Float32Array[];
+            if (spectrum && window) {
+                powers = computeWindowBandPowers(channels[0], chunkStarts, window, spectrum.bandBins);
+            } else if (chroma && window) {
+                powers = [
+                    computeWindowPowers(channels[0], chunkStarts, windowSize),
+                    ...computeWindowChroma(channels[0], chunkStarts, window, chroma.pitchClasses)
+                ];
+            } else if (features) {
+                // Flux compares with the window before the chunk, so chunking does not change it
+                const previousStart = start > 0 ? windowStarts[start - 1] : null;
+                powers = channels.map((channel, i) => computeWindowFeature(
+                    channel, chunkStarts, windowSize, features.features[i], features.sampleRate, previousStart
+                ));
+            } else {
+                powers = channels.map(channel => computeWindowPowers(channel, chunkStarts, windowSize));
+            }
+
+            const message: AnalysisResponse = { type: 'chunk', grid, start, powers };
+            workerScope.postMessage(message, powers.map(chunk => chunk.buffer));
+        }
+    });
+
+    const message: AnalysisResponse = { type: 'done' };
+    workerScope.postMessage(message);
+};
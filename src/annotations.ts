@@ -0,0 +1,178 @@
+// Section Annotations
+// Named, colored time ranges: JSON and Audacity label-track files, and their outlines on the curve
+
+import { parseHexColor } from './colormaps.js';
+import { timeToBeat } from './tempo-map.js';
+import type { Section, TempoMap, WindowRange } from './types.js';
+
+// Colors given to new and imported sections in turn
+const SECTION_COLORS = ['#ff6b6b', '#ffd166', '#06d6a0', '#4cc9f0', '#b388ff', '#ff9f1c', '#f72585', '#90be6d'];
+
+// Opacity of the fill inside each section's outline
+const SECTION_FILL_ALPHA = 0.12;
+
+/**
+ * Get the color for the nth section
+ * @param index - Section number (0-based)
+ * @returns "#rrggbb" color
+ */
+export function getSectionColor(index: number): string {
+    return SECTION_COLORS[index % SECTION_COLORS.length];
+}
+
+/**
+ * Check a section read from a file and fill in a missing name or color
+ * @param value - Parsed value
+ * @param index - Position in the file, for defaults and messages
+ * @returns Section
+ */
+function toSection(value: unknown, index: number): Section {
+    const entry = value as Partial<Section> | null;
+    if (typeof entry !== 'object' || entry === null || typeof entry.start !== 'number' || typeof entry.end !== 'number'
+        || !isFinite(entry.start) || !isFinite(entry.end) || entry.end < entry.start) {
+        throw new Error(`Section ${index + 1} needs numeric start and end times with end after start`);
+    }
+    return {
+        name: typeof entry.name === 'string' && entry.name.trim() ? entry.name : `Section ${index + 1}`,
+        color: typeof entry.color === 'string' && parseHexColor(entry.color) ? entry.color : getSectionColor(index),
+        start: entry.start,
+        end: entry.end
+    };
+}
+
+/**
+ * Parse sections from JSON: an array of { name, color, start, end } (times in seconds)
+ * @param text - JSON text
+ * @returns Sections sorted by start time
+ */
+export function parseSectionsJSON(text: string): Section[] {
+    const data: unknown = JSON.parse(text);
+    if (!Array.isArray(data)) throw new Error('Sections JSON must be an array');
+    return data.map(toSection).sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Format sections as JSON
+ * @param sections - Sections
+ * @returns JSON text, one section per line
+ */
+export function formatSectionsJSON(sections: Section[]): string {
+    return `[\n${sections.map(section => `  ${JSON.stringify(section)}`).join(',\n')}\n]\n`;
+}
+
+/**
+ * Parse an Audacity label track export: "start<TAB>end<TAB>label" per line (times in seconds)
+ * Spectral label lines (starting with a backslash) are skipped.
+ * @param text - Label file text
+ * @returns Sections sorted by start time, colored in turn
+ */
+export function parseAudacityLabels(text: string): Section[] {
+    const sections: Section[] = [];
+    text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('\\')) return;
+
+        const [startField, endField, ...labelFields] = line.split('\t');
+        const start = parseFloat(startField);
+        const end = parseFloat(endField);
+        if (isNaN(start) || isNaN(end) || end < start) {
+            throw new Error(`Invalid label line ${lineIndex + 1}: "${line}"`);
+        }
+        sections.push({
+            name: labelFields.join('\t').trim() || `Section ${sections.length + 1}`,
+            color: getSectionColor(sections.length),
+            start,
+            end
+        });
+    });
+    return sections.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Format sections as an Audacity label track
+ * @param sections - Sections
+ * @returns Label file text
+ */
+export function formatAudacityLabels(sections: Section[]): string {
+    return sections.map(section => `${section.start.toFixed(6)}\t${section.end.toFixed(6)}\t${section.name}\n`).join('');
+}
+
+/**
+ * Get the windows a section covers
+ * @param section - Section
+ * @param tempoMap - Tempo map the windows follow
+ * @param samplesPerBeat - Windows per beat
+ * @returns Every window that overlaps the section
+ */
+export function getSectionWindows(section: Section, tempoMap: TempoMap, samplesPerBeat: number): WindowRange {
+    return {
+        firstWindow: Math.floor(timeToBeat(section.start, tempoMap) * samplesPerBeat),
+        endWindow: Math.ceil(timeToBeat(section.end, tempoMap) * samplesPerBeat)
+    };
+}
+
+/**
+ * Outline each section's windows on the curve in its color, with a faint fill
+ * Where sections overlap, the later one in the list owns the pixels.
+ * @param ctx - Target context, the size of the canvas times scale
+ * @param curveIndices - Curve index per pixel from getCoordinateLUT
+ * @param width - Canvas width
+ * @param zOrderOffset - Z-order offset in windows
+ * @param ranges - Windows of each section
+ * @param colors - Color of each section
+ * @param scale - Target pixels per canvas pixel
+ * @param lineWidth - Outline width in target pixels
+ */
+export function drawSectionOutlines(
+    ctx: CanvasRenderingContext2D,
+    curveIndices: Uint32Array,
+    width: number,
+    zOrderOffset: number,
+    ranges: WindowRange[],
+    colors: string[],
+    scale: number,
+    lineWidth: number
+): void {
+    const height = curveIndices.length / width;
+    const owners = new Int32Array(curveIndices.length).fill(-1);
+    for (let p = 0; p < curveIndices.length; p++) {
+        const window = curveIndices[p] - zOrderOffset;
+        for (let i = ranges.length - 1; i >= 0; i--) {
+            if (window >= ranges[i].firstWindow && window < ranges[i].endWindow) {
+                owners[p] = i;
+                break;
+            }
+        }
+    }
+
+    // Pixels of each section, then the edges each shares with anything else
+    const fills: number[][] = ranges.map(() => []);
+    const edges: number[][] = ranges.map(() => []);
+    const thickness = Math.min(lineWidth, scale);
+    for (let p = 0; p < owners.length; p++) {
+        const owner = owners[p];
+        if (owner < 0) continue;
+        const x = p % width;
+        const y = (p - x) / width;
+        const left = x * scale, top = y * scale;
+        fills[owner].push(left, top, scale, scale);
+        if (x === 0 || owners[p - 1] !== owner) edges[owner].push(left, top, thickness, scale);
+        if (x === width - 1 || owners[p + 1] !== owner) edges[owner].push(left + scale - thickness, top, thickness, scale);
+        if (y === 0 || owners[p - width] !== owner) edges[owner].push(left, top, scale, thickness);
+        if (y === height - 1 || owners[p + width] !== owner) edges[owner].push(left, top + scale - thickness, scale, thickness);
+    }
+
+    ctx.save();
+    for (let i = 0; i < ranges.length; i++) {
+        ctx.fillStyle = colors[i];
+        for (const [rects, alpha] of [[fills[i], SECTION_FILL_ALPHA], [edges[i], 1]] as const) {
+            ctx.globalAlpha = alpha;
+            ctx.beginPath();
+            for (let r = 0; r < rects.length; r += 4) {
+                ctx.rect(rects[r], rects[r + 1], rects[r + 2], rects[r + 3]);
+            }
+            ctx.fill();
+        }
+    }
+    ctx.restore();
+}
@@ -1,7 +1,8 @@
 // Audio Processing Utilities
-// RMS power calculation and frequency band filtering
+// RMS power calculation, channel derivation and frequency band filtering
 
-import type { FilteredBands } from './types.js';
+import { applyBiquad, computeBiquadCoefficients } from './biquad.js';
+import type { BiquadSettings, ChannelSource, FilteredBands } from './types.js';
 
 /**
  * Calculate RMS (Root Mean Square) power of an audio window
@@ -27,46 +28,162 @@ export function calculateRMSPower(
 }
 
 /**
- * Apply frequency filtering to separate audio into 3 bands (low, mid, high)
+ * Calculate the RMS power of every window
+ * @param audioData - Audio sample data
+ * @param windowStarts - Start sample per window
+ * @param windowSize - Window size in samples
+ * @returns RMS power per window
+ */
+export function computeWindowPowers(
+    audioData: Float32Array,
+    windowStarts: Uint32Array,
+    windowSize: number
+): Float32Array {
+    const powers = new Float32Array(windowStarts.length);
+    for (let i = 0; i < windowStarts.length; i++) {
+        powers[i] = calculateRMSPower(audioData, windowStarts[i], windowSize);
+    }
+    return powers;
+}
+
+/**
+ * Derive the analysed signal from the decoded channels
+ * Mono files use their only channel as both left and right, so side is silent.
+ * @param channels - Samples per channel (left first)
+ * @param source - Channel source
+ * @returns Derived signal (a new array, safe to transfer)
+ */
+export function deriveChannel(channels: Float32Array[], source: ChannelSource): Float32Array {
+    const left = channels[0];
+    const right = channels.length > 1 ? channels[1] : channels[0];
+
+    if (source === 'left') return left.slice();
+    if (source === 'right') return right.slice();
+
+    const derived = new Float32Array(left.length);
+    const sign = source === 'mid' ? 1 : -1;
+    for (let i = 0; i < derived.length; i++) {
+        derived[i] = (left[i] + sign * right[i]) / 2;
+    }
+    return derived;
+}
+
+/**
+ * Combine left and right window powers into overall power and pan position
+ * @param left - RMS power per window of the left channel
+ * @param right - RMS power per window of the right channel
+ * @returns Combined RMS power, and pan from -1 (left) through 0 (center) to 1 (right)
+ */
+export function computeStereoBalance(left: Float32Array, right: Float32Array): { powers: Float32Array; balance: Float32Array } {
+    const powers = new Float32Array(left.length);
+    const balance = new Float32Array(left.length);
+    for (let i = 0; i < left.length; i++) {
+        const total = left[i] + right[i];
+        powers[i] = Math.sqrt((left[i] * left[i] + right[i] * right[i]) / 2);
+        balance[i] = total > 0 ? (right[i] - left[i]) / total : 0;
+    }
+    return { powers, balance };
+}
+
+/**
+ * Find the maximum power, falling back to 1.0 for silence
+ * @param powers - Power values
+ * @returns Maximum power used for normalization
+ */
+export function findMaxPower(powers: Float32Array): number {
+    let max = 0;
+    for (let i = 0; i < powers.length; i++) {
+        if (powers[i] > max) max = powers[i];
+    }
+    return max === 0 ? 1.0 : max;
+}
+
+/**
+ * Find a percentile of the powers, falling back to the maximum when it is 0
+ * Clipping at e.g. the 99th percentile keeps a few loud transients from darkening the rest.
+ * @param powers - Power values
+ * @param percentile - Percentile (0-100); 100 is the maximum
+ * @returns Power used for normalization
+ */
+export function findPercentilePower(powers: Float32Array, percentile: number): number {
+    if (percentile >= 100 || powers.length === 0) return findMaxPower(powers);
+    const sorted = powers.slice().sort();
+    const value = sorted[Math.min(sorted.length - 1, Math.floor((percentile / 100) * sorted.length))];
+    return value > 0 ? value : findMaxPower(powers);
+}
+
+/**
+ * Get the filter settings for the low, mid and high bands
+ * @param lowMidCutoff - Frequency separating low and mid bands (Hz)
+ * @param midHighCutoff - Frequency separating mid and high bands (Hz)
+ * @returns Settings for the low, mid and high filters
+ */
+function getBandFilterSettings(lowMidCutoff: number, midHighCutoff: number): [BiquadSettings, BiquadSettings, BiquadSettings] {
+    const midCenter = Math.sqrt(lowMidCutoff * midHighCutoff); // Geometric mean
+    return [
+        // Low band: Lowpass filter, Butterworth response
+        { type: 'lowpass', frequency: lowMidCutoff, Q: 0.7071 },
+        // Mid band: Bandpass filter
+        { type: 'bandpass', frequency: midCenter, Q: midCenter / (midHighCutoff - lowMidCutoff) },
+        // High band: Highpass filter, Butterworth response
+        { type: 'highpass', frequency: midHighCutoff, Q: 0.7071 }
+    ];
+}
+
+/**
+ * Separate a signal into 3 bands (low, mid, high) without Web Audio
+ * Uses the same filters as applyFrequencyFiltering, so results match the browser.
+ * @param audioData - Audio sample data
+ * @param sampleRate - Audio sample rate
+ * @param lowMidCutoff - Frequency separating low and mid bands (Hz)
+ * @param midHighCutoff - Frequency separating mid and high bands (Hz)
+ * @returns Filtered audio data
+ */
+export function filterFrequencyBands(
+    audioData: Float32Array,
+    sampleRate: number,
+    lowMidCutoff: number,
+    midHighCutoff: number
+): FilteredBands {
+    const [low, mid, high] = getBandFilterSettings(lowMidCutoff, midHighCutoff)
+        .map(settings => applyBiquad(audioData, computeBiquadCoefficients(settings, sampleRate)));
+    return { low, mid, high };
+}
+
+/**
+ * Apply frequency filtering to separate a signal into 3 bands (low, mid, high)
  * Uses Web Audio API's OfflineAudioContext and BiquadFilterNode for performance
- * @param audioBuffer - Input audio buffer
+ * @param audioData - Signal to filter (e.g. from deriveChannel)
+ * @param sampleRate - Audio sample rate
  * @param lowMidCutoff - Frequency separating low and mid bands (Hz)
  * @param midHighCutoff - Frequency separating mid and high bands (Hz)
  * @returns Filtered audio data
  */
 export async function applyFrequencyFiltering(
-    audioBuffer: AudioBuffer,
+    audioData: Float32Array,
+    sampleRate: number,
     lowMidCutoff: number,
     midHighCutoff: number
 ): Promise<FilteredBands> {
-    const sampleRate = audioBuffer.sampleRate;
-    const length = audioBuffer.length;
+    const length = audioData.length;
 
     // Create offline context with 3 channels (one for each band)
     const offlineCtx = new OfflineAudioContext(3, length, sampleRate);
 
-    // Create source
+    // Create source from the signal
+    const inputBuffer = offlineCtx.createBuffer(1, length, sampleRate);
+    inputBuffer.getChannelData(0).set(audioData);
     const source = offlineCtx.createBufferSource();
-    source.buffer = audioBuffer;
+    source.buffer = inputBuffer;
 
     // Create filters for each frequency band
-    // Low band: Lowpass filter
-    const lowFilter = offlineCtx.createBiquadFilter();
-    lowFilter.type = 'lowpass';
-    lowFilter.frequency.value = lowMidCutoff;
-    lowFilter.Q.value = 0.7071; // Butterworth response
-
-    // Mid band: Bandpass filter
-    const midFilter = offlineCtx.createBiquadFilter();
-    midFilter.type = 'bandpass';
-    midFilter.frequency.value = Math.sqrt(lowMidCutoff * midHighCutoff); // Geometric mean
-    midFilter.Q.value = Math.sqrt(lowMidCutoff * midHighCutoff) / (midHighCutoff - lowMidCutoff);
-
-    // High band: Highpass filter
-    const highFilter = offlineCtx.createBiquadFilter();
-    highFilter.type = 'highpass';
-    highFilter.frequency.value = midHighCutoff;
-    highFilter.Q.value = 0.7071; // Butterworth response
+    const [lowFilter, midFilter, highFilter] = getBandFilterSettings(lowMidCutoff, midHighCutoff).map(settings => {
+        const filter = offlineCtx.createBiquadFilter();
+        filter.type = settings.type;
+        filter.frequency.value = settings.frequency;
+        filter.Q.value = settings.Q;
+        return filter;
+    });
 
     // Create channel merger
     const merger = offlineCtx.createChannelMerger(3);
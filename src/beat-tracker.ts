@@ -0,0 +1,146 @@
+// Beat Tracking and Drift Correction
+// Follows individual beat onsets so the window grid stretches with a drifting tempo
+
+import { timeToBeat, beatToTime } from './tempo-map.js';
+import type { BeatTrackingResult, TempoMap, TempoSegment } from './types.js';
+
+// Onset envelope hop size in samples (~5.8 ms at 44.1 kHz)
+const ONSET_HOP_SIZE = 256;
+
+// How far (fraction of a beat) a beat may move from its prediction
+const SEARCH_RANGE = 0.15;
+
+// Width of the preference for the predicted position (fraction of a beat)
+const PREDICTION_SIGMA = 0.05;
+
+// Weight given to each new beat interval when updating the period estimate
+const PERIOD_ADAPTATION = 0.2;
+
+/**
+ * Compute an onset strength envelope from frame-to-frame log energy increases
+ * @param audioData - Audio sample data
+ * @param hopSize - Frame size in samples
+ * @returns Onset strength per frame
+ */
+export function computeOnsetEnvelope(audioData: Float32Array, hopSize: number): Float32Array {
+    const frameCount = Math.floor(audioData.length / hopSize);
+    const envelope = new Float32Array(frameCount);
+
+    let previousLogEnergy = 0;
+    for (let f = 0; f < frameCount; f++) {
+        let energy = 0;
+        const start = f * hopSize;
+        for (let i = start; i < start + hopSize; i++) {
+            energy += audioData[i] * audioData[i];
+        }
+        const logEnergy = Math.log(energy / hopSize + 1e-10);
+        // Half-wave rectified: only energy increases count as onsets
+        envelope[f] = f > 0 ? Math.max(0, logEnergy - previousLogEnergy) : 0;
+        previousLogEnergy = logEnergy;
+    }
+
+    return envelope;
+}
+
+/**
+ * Track individual beats around the nominal grid and build a drift-corrected tempo map
+ * The nominal grid comes from the tempo map and offset. Each beat is searched near
+ * the previous tracked beat plus an adaptive period, so slow drift is followed.
+ * @param audioData - Audio sample data
+ * @param sampleRate - Audio sample rate
+ * @param tempoMap - Nominal tempo map
+ * @param offsetSeconds - Offset input in seconds (sets the beat phase)
+ * @returns Tracked beats, drift and corrected tempo map
+ */
+export function trackBeats(
+    audioData: Float32Array,
+    sampleRate: number,
+    tempoMap: TempoMap,
+    offsetSeconds: number
+): BeatTrackingResult {
+    const duration = audioData.length / sampleRate;
+    const envelope = computeOnsetEnvelope(audioData, ONSET_HOP_SIZE);
+    const frameDuration = ONSET_HOP_SIZE / sampleRate;
+
+    let meanStrength = 0;
+    for (let f = 0; f < envelope.length; f++) meanStrength += envelope[f];
+    meanStrength /= Math.max(1, envelope.length);
+
+    // Nominal beats: beat positions aligned with the offset's phase
+    const phase = timeToBeat(offsetSeconds, tempoMap);
+    const firstBeat = Math.floor(phase) - phase + 1; // First aligned beat position after time 0
+    const nominalTimes: number[] = [];
+    for (let beat = firstBeat; ; beat++) {
+        const time = beatToTime(beat, tempoMap);
+        if (time >= duration) break;
+        nominalTimes.push(time);
+    }
+
+    // The first nominal beat anchors the grid; beats after it are tracked
+    const beatTimes: number[] = nominalTimes.slice(0, 1);
+    let period = nominalTimes.length > 1 ? nominalTimes[1] - nominalTimes[0] : 0;
+
+    for (let k = 1; k < nominalTimes.length; k++) {
+        const nominalPeriod = nominalTimes[k] - nominalTimes[k - 1];
+        const previous = beatTimes[k - 1];
+        const predicted = previous + period;
+
+        const searchStart = Math.max(0, Math.floor((predicted - SEARCH_RANGE * nominalPeriod) / frameDuration));
+        const searchEnd = Math.min(envelope.length - 1, Math.ceil((predicted + SEARCH_RANGE * nominalPeriod) / frameDuration));
+        const sigma = PREDICTION_SIGMA * nominalPeriod;
+
+        let bestTime = predicted;
+        let bestScore = 0;
+        for (let f = searchStart; f <= searchEnd; f++) {
+            if (envelope[f] < meanStrength) continue; // Too weak to be a beat
+            const time = f * frameDuration;
+            const distance = (time - predicted) / sigma;
+            const score = envelope[f] * Math.exp(-0.5 * distance * distance);
+            if (score > bestScore) {
+                bestScore = score;
+                bestTime = time;
+            }
+        }
+
+        if (bestTime >= duration || bestTime <= previous) bestTime = predicted;
+        beatTimes.push(bestTime);
+
+        // Adapt the period towards observed intervals, staying near the nominal tempo
+        const observed = bestTime - previous;
+        period = (1 - PERIOD_ADAPTATION) * period + PERIOD_ADAPTATION * observed;
+        period = Math.min(nominalPeriod * (1 + SEARCH_RANGE), Math.max(nominalPeriod * (1 - SEARCH_RANGE), period));
+    }
+
+    return {
+        beatTimes,
+        drift: beatTimes.map((time, k) => time - nominalTimes[k]),
+        tempoMap: buildBeatTempoMap(beatTimes, tempoMap)
+    };
+}
+
+/**
+ * Build a tempo map with one segment per tracked beat
+ * Segments before the first beat are kept from the nominal map, so the beat numbering
+ * (and the offset conversion) stays the same as the nominal grid.
+ * @param beatTimes - Tracked beat times, first one being the nominal anchor
+ * @param tempoMap - Nominal tempo map
+ * @returns Beat-by-beat tempo map
+ */
+function buildBeatTempoMap(beatTimes: number[], tempoMap: TempoMap): TempoMap {
+    if (beatTimes.length < 2) return tempoMap;
+
+    const segments: TempoSegment[] = tempoMap.filter(segment => segment.time < beatTimes[0]);
+    if (segments.length === 0) {
+        segments.push({ time: 0, bpm: tempoMap[0].bpm });
+    }
+
+    for (let k = 0; k < beatTimes.length - 1; k++) {
+        segments.push({ time: beatTimes[k], bpm: 60 / (beatTimes[k + 1] - beatTimes[k]) });
+    }
+
+    // Continue after the last tracked beat at the last tracked tempo
+    const lastIndex = beatTimes.length - 1;
+    segments.push({ time: beatTimes[lastIndex], bpm: segments[segments.length - 1].bpm });
+
+    return segments;
+}
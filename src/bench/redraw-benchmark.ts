@@ -0,0 +1,97 @@
+// Redraw Benchmark
+// Times offset scrubbing on a synthetic 10-minute track at the highest resolution
+
+import { createDefaultColorSettings } from '../colormaps.js';
+import { createCurve } from '../curves.js';
+import { getCoordinateLUT, renderPixels } from '../visualizer.js';
+import type { CurveType } from '../types.js';
+
+const DURATION_SECONDS = 600;
+const BPM = 128;
+const SAMPLES_PER_BEAT = 4096;
+const BEATS_PER_BAR = 4;
+
+// Offset steps simulated per layout, like dragging the offset slider
+const SCRUB_STEPS = 20;
+
+// Untimed frames so the JIT has optimized the render loop before measuring
+const WARMUP_STEPS = 5;
+
+const CURVE_TYPES: CurveType[] = ['zorder', 'hilbert', 'peano', 'rowmajor'];
+
+/**
+ * Fill a buffer with deterministic pseudo-random powers
+ * @param length - Number of windows
+ * @param seed - Generator seed
+ * @returns Synthetic powers
+ */
+function createSyntheticPowers(length: number, seed: number): Float32Array {
+    const powers = new Float32Array(length);
+    let value = seed;
+    for (let i = 0; i < length; i++) {
+        value = (value * 1664525 + 1013904223) >>> 0;
+        powers[i] = value / 0xffffffff;
+    }
+    return powers;
+}
+
+/**
+ * Run the benchmark and print per-layout timings
+ */
+function runBenchmark(): void {
+    const totalWindows = Math.floor(DURATION_SECONDS * BPM / 60 * SAMPLES_PER_BEAT);
+
+    const powerState = {
+        cachedPowers: createSyntheticPowers(totalWindows, 1),
+        cachedRGBPowers: {
+            low: createSyntheticPowers(totalWindows, 2),
+            mid: createSyntheticPowers(totalWindows, 3),
+            high: createSyntheticPowers(totalWindows, 4)
+        },
+        cachedBalance: null,
+        cachedBandPowers: null,
+        cachedBandColors: [],
+        cachedChroma: null,
+        maxPowerMono: 1,
+        maxPowerRGB: { low: 1, mid: 1, high: 1 },
+        maxPowerBands: [],
+        colorSettings: createDefaultColorSettings()
+    };
+
+    console.log(`${totalWindows} windows (${DURATION_SECONDS} s at ${BPM} BPM, ${SAMPLES_PER_BEAT} samples/beat)`);
+
+    for (const type of CURVE_TYPES) {
+        const curve = createCurve(type, { samplesPerBeat: SAMPLES_PER_BEAT, beatsPerBar: BEATS_PER_BAR, subdivisionRadix: 2 });
+        const { width, height } = curve.getCanvasSize(totalWindows);
+        const pixels = new Uint32Array(width * height);
+
+        let start = performance.now();
+        const lut = getCoordinateLUT(curve, width, height);
+        const lutTime = performance.now() - start;
+
+        for (const vizMode of ['mono', 'rgb'] as const) {
+            const state = { ...powerState, cachedVizMode: vizMode };
+            // First frame also computes the window colors
+            start = performance.now();
+            renderPixels(state, pixels, lut, 0);
+            const firstFrameTime = performance.now() - start;
+
+            for (let step = 1; step <= WARMUP_STEPS; step++) {
+                renderPixels(state, pixels, lut, -step);
+            }
+
+            start = performance.now();
+            for (let step = 1; step <= SCRUB_STEPS; step++) {
+                renderPixels(state, pixels, lut, step * SAMPLES_PER_BEAT / 8);
+            }
+            const frameTime = (performance.now() - start) / SCRUB_STEPS;
+            console.log(
+                `${type.padEnd(8)} ${vizMode.padEnd(4)} ${width}x${height}: ` +
+                `table ${lutTime.toFixed(0)} ms, first frame ${firstFrameTime.toFixed(0)} ms, ` +
+                `redraw ${frameTime.toFixed(1)} ms (${(1000 / frameTime).toFixed(0)} fps)`
+            );
+        }
+    }
+}
+
+runBenchmark();
@@ -0,0 +1,81 @@
+// Biquad Filters
+// Pure TypeScript filters matching Web Audio's BiquadFilterNode, for use without an AudioContext
+
+import type { BiquadCoefficients, BiquadSettings } from './types.js';
+
+/**
+ * Compute normalized biquad coefficients
+ * Follows the Web Audio specification (Audio EQ Cookbook), including its
+ * interpretation of Q in decibels for lowpass and highpass filters.
+ * @param settings - Filter type, frequency (Hz) and Q
+ * @param sampleRate - Audio sample rate
+ * @returns Coefficients normalized by a0
+ */
+export function computeBiquadCoefficients(settings: BiquadSettings, sampleRate: number): BiquadCoefficients {
+    const { type, Q } = settings;
+    // Web Audio clamps the frequency to [0, Nyquist]
+    const frequency = Math.max(0, Math.min(sampleRate / 2, settings.frequency));
+    const w0 = 2 * Math.PI * frequency / sampleRate;
+    const cosW0 = Math.cos(w0);
+
+    let b0: number, b1: number, b2: number, a0: number, a1: number, a2: number;
+
+    switch (type) {
+        case 'lowpass': {
+            const alpha = Math.sin(w0) / (2 * Math.pow(10, Q / 20));
+            b0 = (1 - cosW0) / 2;
+            b1 = 1 - cosW0;
+            b2 = (1 - cosW0) / 2;
+            a0 = 1 + alpha;
+            a1 = -2 * cosW0;
+            a2 = 1 - alpha;
+            break;
+        }
+        case 'highpass': {
+            const alpha = Math.sin(w0) / (2 * Math.pow(10, Q / 20));
+            b0 = (1 + cosW0) / 2;
+            b1 = -(1 + cosW0);
+            b2 = (1 + cosW0) / 2;
+            a0 = 1 + alpha;
+            a1 = -2 * cosW0;
+            a2 = 1 - alpha;
+            break;
+        }
+        case 'bandpass':
+        default: {
+            const alpha = Math.sin(w0) / (2 * Q);
+            b0 = alpha;
+            b1 = 0;
+            b2 = -alpha;
+            a0 = 1 + alpha;
+            a1 = -2 * cosW0;
+            a2 = 1 - alpha;
+            break;
+        }
+    }
+
+    return { b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0 };
+}
+
+/**
+ * Run a signal through a biquad filter (transposed direct form II)
+ * @param input - Input samples
+ * @param coefficients - Normalized coefficients
+ * @returns Filtered samples
+ */
+export function applyBiquad(input: Float32Array, coefficients: BiquadCoefficients): Float32Array {
+    const { b0, b1, b2, a1, a2 } = coefficients;
+    const output = new Float32Array(input.length);
+
+    // Filter state is kept in double precision like the browser implementations
+    let z1 = 0;
+    let z2 = 0;
+    for (let i = 0; i < input.length; i++) {
+        const x = input[i];
+        const y = b0 * x + z1;
+        z1 = b1 * x - a1 * y + z2;
+        z2 = b2 * x - a2 * y;
+        output[i] = y;
+    }
+    return output;
+}
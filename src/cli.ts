@@ -0,0 +1,361 @@
+// Command-Line Renderer
+// Renders a structure image from a WAV or FLAC file without a browser
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { computeStereoBalance, deriveChannel, filterFrequencyBands, findMaxPower } from './audio-processor.js';
+import { trackBeats } from './beat-tracker.js';
+import { createDefaultColorSettings, parseColormapStops } from './colormaps.js';
+import { buildCoordinateLUT, createCurve } from './curves.js';
+import { computeWindowFeature, isSpectralFeature } from './features.js';
+import { decodeFlac, isFlac } from './flac-decoder.js';
+import { computeOnsetStrength } from './onsets.js';
+import { buildExportMetadata } from './image-export.js';
+import { encodePNG } from './png-encoder.js';
+import { computeBandBins, createBandPreset, parseBandsCSV } from './spectral-bands.js';
+import { computeChromaBins, computeWindowBandPowers, computeWindowChroma, createWindowFunction } from './spectrum.js';
+import { computeWindowStartSamples, countWindows, createConstantTempoMap, parseMidiTempoMap, parseTempoMapCSV, timeToBeat } from './tempo-map.js';
+import { renderPixels } from './visualizer.js';
+import { decodeWav, isWav } from './wav-decoder.js';
+import type {
+    ChannelSource, ColormapName, ColorScaling, ColorSettings, CurveType, DecodedAudio, OnsetMethod, RGBChannelSource, SpectralBand, SpectralBandPreset, TempoMap, VizMode,
+    WindowFeature, WindowFunction
+} from './types.js';
+
+const USAGE = `Usage: webfft <audio.wav|audio.flac> [options]
+
+Options:
+  -o, --output <file>          Output PNG (default: <input>.png)
+      --bpm <bpm>              Tempo in beats per minute (default: 120)
+      --tempo-map <file>       Tempo map as CSV (time, bpm) or MIDI file; overrides --bpm
+      --samples-per-beat <n>   Windows per beat (default: 256)
+      --window-size <n>        RMS window size in samples; FFT size in bands and chroma modes (default: 512)
+      --offset <seconds>       Z-order offset in seconds (default: 0)
+      --mode <mode>            rgb, mono, balance, bands, chroma or onset (default: rgb)
+      --channel <source>       left, right, mid or side for all modes but balance (default: mid)
+      --mono-feature <f>       rms, centroid, flux, flatness, hfc or zcr shown in mono mode (default: rms)
+      --rgb-sources <r,g,b>    band or a mono feature per RGB channel (default: band,band,band)
+      --low-mid-cutoff <hz>    Low/mid band split for RGB mode (default: 250)
+      --mid-high-cutoff <hz>   Mid/high band split for RGB mode (default: 4000)
+      --onset-method <m>       flux or hfc novelty for onset mode (default: flux)
+      --bands <preset|file>    octave, mel, bark, rgb or a band list CSV for bands mode (default: octave)
+      --window-function <fn>   hann, hamming, blackman or rectangular for bands mode (default: hann)
+      --colormap <map>         viridis, magma, inferno, cividis, grayscale or a #rrggbb,#rrggbb,... gradient
+                               for mono and onset modes (default: viridis)
+      --scaling <s>            linear, db or gamma level scaling (default: linear)
+      --db-floor <db>          Level shown as black in db scaling (default: -60)
+      --gamma <g>              Exponent of gamma scaling; below 1 lifts quiet parts (default: 0.5)
+      --percentile <p>         Normalize to this percentile instead of the maximum (default: 100)
+      --curve <type>           zorder, hilbert, peano or rowmajor (default: zorder)
+      --beats-per-bar <n>      Beats per bar (default: 4)
+      --subdivision <2|3>      Beat subdivision radix (default: 2)
+      --drift-correction       Track beats and follow tempo drift
+  -h, --help                   Show this help`;
+
+const CURVE_TYPES: CurveType[] = ['zorder', 'hilbert', 'peano', 'rowmajor'];
+const VIZ_MODES: VizMode[] = ['rgb', 'mono', 'balance', 'bands', 'chroma', 'onset'];
+const CHANNEL_SOURCES: ChannelSource[] = ['left', 'right', 'mid', 'side'];
+const BAND_PRESETS: SpectralBandPreset[] = ['octave', 'mel', 'bark', 'rgb'];
+const WINDOW_FUNCTIONS: WindowFunction[] = ['hann', 'hamming', 'blackman', 'rectangular'];
+const WINDOW_FEATURES: WindowFeature[] = ['rms', 'centroid', 'flux', 'flatness', 'hfc', 'zcr'];
+const ONSET_METHODS: OnsetMethod[] = ['flux', 'hfc'];
+const COLORMAPS: ColormapName[] = ['viridis', 'magma', 'inferno', 'cividis', 'grayscale'];
+const COLOR_SCALINGS: ColorScaling[] = ['linear', 'db', 'gamma'];
+
+/**
+ * Parse a numeric option, rejecting non-numbers and out-of-range values
+ * @param name - Option name for error messages
+ * @param value - Raw option value
+ * @param min - Smallest allowed value
+ * @returns Parsed number
+ */
+function parseNumberOption(name: string, value: string, min = -Infinity): number {
+    const number = Number(value);
+    if (!isFinite(number) || number < min) {
+        throw new Error(`Invalid --${name}: ${value}`);
+    }
+    return number;
+}
+
+/**
+ * Parse the colormap, scaling and normalization options
+ * @param values - Parsed option values
+ * @returns Color settings
+ */
+function parseColorOptions(values: Record<string, string | boolean | undefined>): ColorSettings {
+    const colorSettings = createDefaultColorSettings();
+
+    const colormap = values.colormap as string;
+    if (COLORMAPS.includes(colormap as ColormapName)) {
+        colorSettings.colormap = colormap as ColormapName;
+    } else if (colormap.includes('#')) {
+        colorSettings.colormap = 'custom';
+        try {
+            colorSettings.customColormap = parseColormapStops(colormap);
+        } catch (error) {
+            throw new Error(`Invalid --colormap: ${(error as Error).message}`);
+        }
+    } else {
+        throw new Error(`Invalid --colormap: ${colormap}`);
+    }
+
+    colorSettings.scaling = values.scaling as ColorScaling;
+    if (!COLOR_SCALINGS.includes(colorSettings.scaling)) {
+        throw new Error(`Invalid --scaling: ${values.scaling}`);
+    }
+    colorSettings.dbFloor = parseNumberOption('db-floor', values['db-floor'] as string);
+    if (colorSettings.dbFloor >= 0) {
+        throw new Error(`Invalid --db-floor: ${values['db-floor']} (must be negative)`);
+    }
+    colorSettings.gamma = parseNumberOption('gamma', values.gamma as string, Number.MIN_VALUE);
+    colorSettings.percentile = parseNumberOption('percentile', values.percentile as string, Number.MIN_VALUE);
+    if (colorSettings.percentile > 100) {
+        throw new Error(`Invalid --percentile: ${values.percentile}`);
+    }
+    return colorSettings;
+}
+
+/**
+ * Decode a WAV or FLAC file based on its contents
+ * @param data - File contents
+ * @returns Decoded audio
+ */
+function decodeAudioFile(data: ArrayBuffer): DecodedAudio {
+    if (isWav(data)) return decodeWav(data);
+    if (isFlac(data)) return decodeFlac(data);
+    throw new Error('Unsupported audio format (WAV and FLAC are supported)');
+}
+
+/**
+ * Read a tempo map file: MIDI by extension, CSV otherwise
+ * @param path - Tempo map file path
+ * @returns Tempo map
+ */
+async function readTempoMap(path: string): Promise<TempoMap> {
+    const contents = await readFile(path);
+    const extension = extname(path).toLowerCase();
+    if (extension === '.mid' || extension === '.midi') {
+        return parseMidiTempoMap(contents.buffer.slice(contents.byteOffset, contents.byteOffset + contents.byteLength));
+    }
+    return parseTempoMapCSV(contents.toString('utf8'));
+}
+
+/**
+ * Resolve the --bands option: a preset name or a band list file
+ * @param value - Preset name or file path
+ * @returns Bands
+ */
+async function readBands(value: string): Promise<SpectralBand[]> {
+    if (BAND_PRESETS.includes(value as SpectralBandPreset)) {
+        return createBandPreset(value as SpectralBandPreset);
+    }
+    return parseBandsCSV(await readFile(value, 'utf8'));
+}
+
+/**
+ * Run the command line
+ * @param args - Arguments after the script name
+ */
+async function main(args: string[]): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            output: { type: 'string', short: 'o' },
+            bpm: { type: 'string', default: '120' },
+            'tempo-map': { type: 'string' },
+            'samples-per-beat': { type: 'string', default: '256' },
+            'window-size': { type: 'string', default: '512' },
+            offset: { type: 'string', default: '0' },
+            mode: { type: 'string', default: 'rgb' },
+            channel: { type: 'string', default: 'mid' },
+            'mono-feature': { type: 'string', default: 'rms' },
+            'rgb-sources': { type: 'string', default: 'band,band,band' },
+            'onset-method': { type: 'string', default: 'flux' },
+            'low-mid-cutoff': { type: 'string', default: '250' },
+            'mid-high-cutoff': { type: 'string', default: '4000' },
+            bands: { type: 'string', default: 'octave' },
+            'window-function': { type: 'string', default: 'hann' },
+            colormap: { type: 'string', default: 'viridis' },
+            scaling: { type: 'string', default: 'linear' },
+            'db-floor': { type: 'string', default: '-60' },
+            gamma: { type: 'string', default: '0.5' },
+            percentile: { type: 'string', default: '100' },
+            curve: { type: 'string', default: 'zorder' },
+            'beats-per-bar': { type: 'string', default: '4' },
+            subdivision: { type: 'string', default: '2' },
+            'drift-correction': { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h', default: false }
+        }
+    });
+
+    if (values.help || positionals.length !== 1) {
+        console.log(USAGE);
+        if (!values.help) process.exitCode = 1;
+        return;
+    }
+
+    const inputPath = positionals[0];
+    const outputPath = values.output ?? `${basename(inputPath, extname(inputPath))}.png`;
+    const samplesPerBeat = parseNumberOption('samples-per-beat', values['samples-per-beat']!, 1);
+    const windowSize = parseNumberOption('window-size', values['window-size']!, 1);
+    const offsetSeconds = parseNumberOption('offset', values.offset!);
+    const beatsPerBar = parseNumberOption('beats-per-bar', values['beats-per-bar']!, 1);
+    const subdivisionRadix = parseNumberOption('subdivision', values.subdivision!, 2);
+
+    const vizMode = values.mode as VizMode;
+    if (!VIZ_MODES.includes(vizMode)) {
+        throw new Error(`Invalid --mode: ${values.mode}`);
+    }
+    const channelSource = values.channel as ChannelSource;
+    if (!CHANNEL_SOURCES.includes(channelSource)) {
+        throw new Error(`Invalid --channel: ${values.channel}`);
+    }
+    const monoFeature = values['mono-feature'] as WindowFeature;
+    if (!WINDOW_FEATURES.includes(monoFeature)) {
+        throw new Error(`Invalid --mono-feature: ${values['mono-feature']}`);
+    }
+    const rgbSources = values['rgb-sources']!.split(',').map(source => source.trim()) as RGBChannelSource[];
+    if (rgbSources.length !== 3 || rgbSources.some(source => source !== 'band' && !WINDOW_FEATURES.includes(source))) {
+        throw new Error(`Invalid --rgb-sources: ${values['rgb-sources']}`);
+    }
+    const onsetMethod = values['onset-method'] as OnsetMethod;
+    if (!ONSET_METHODS.includes(onsetMethod)) {
+        throw new Error(`Invalid --onset-method: ${values['onset-method']}`);
+    }
+    // Feature per analysed channel; other modes use RMS power
+    const features: WindowFeature[] = vizMode === 'rgb'
+        ? rgbSources.map(source => source === 'band' ? 'rms' : source)
+        : vizMode === 'mono' ? [monoFeature]
+        : vizMode === 'onset' ? [onsetMethod] : [];
+    const windowFunction = values['window-function'] as WindowFunction;
+    if (!WINDOW_FUNCTIONS.includes(windowFunction)) {
+        throw new Error(`Invalid --window-function: ${values['window-function']}`);
+    }
+    const needsFFT = vizMode === 'bands' || vizMode === 'chroma' || features.some(isSpectralFeature);
+    if (needsFFT && (windowSize < 2 || !Number.isInteger(Math.log2(windowSize)))) {
+        throw new Error(`Invalid --window-size: ${windowSize} (spectral analysis needs a power of 2)`);
+    }
+    const colorSettings = parseColorOptions(values);
+    const curveType = values.curve as CurveType;
+    if (!CURVE_TYPES.includes(curveType)) {
+        throw new Error(`Invalid --curve: ${values.curve}`);
+    }
+
+    const tempoMap = values['tempo-map']
+        ? await readTempoMap(values['tempo-map'])
+        : createConstantTempoMap(parseNumberOption('bpm', values.bpm!, Number.MIN_VALUE));
+
+    const spectralBands = await readBands(values.bands!);
+
+    const file = await readFile(inputPath);
+    const { sampleRate, channels } = decodeAudioFile(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength));
+
+    const lowMidCutoff = parseNumberOption('low-mid-cutoff', values['low-mid-cutoff']!, 1);
+    const midHighCutoff = parseNumberOption('mid-high-cutoff', values['mid-high-cutoff']!, lowMidCutoff);
+
+    // Same inputs as the browser: the selected channel source, band-filtered for RGB channels that
+    // show their band; left and right for balance
+    let analysisChannels: Float32Array[];
+    if (vizMode === 'rgb') {
+        const source = deriveChannel(channels, channelSource);
+        const bands = rgbSources.includes('band')
+            ? filterFrequencyBands(source, sampleRate, lowMidCutoff, midHighCutoff)
+            : { low: source, mid: source, high: source };
+        analysisChannels = [bands.low, bands.mid, bands.high].map((band, i) => rgbSources[i] === 'band' ? band : source);
+    } else if (vizMode === 'balance') {
+        analysisChannels = [deriveChannel(channels, 'left'), deriveChannel(channels, 'right')];
+    } else {
+        analysisChannels = [deriveChannel(channels, channelSource)];
+    }
+
+    const gridTempoMap = values['drift-correction']
+        ? trackBeats(deriveChannel(channels, 'mid'), sampleRate, tempoMap, offsetSeconds).tempoMap
+        : tempoMap;
+
+    const totalWindows = countWindows(gridTempoMap, samplesPerBeat, channels[0].length / sampleRate);
+    const windowStarts = computeWindowStartSamples(gridTempoMap, samplesPerBeat, sampleRate, totalWindows);
+    const powers = vizMode === 'bands'
+        ? computeWindowBandPowers(
+            analysisChannels[0],
+            windowStarts,
+            createWindowFunction(windowFunction, windowSize),
+            computeBandBins(spectralBands, windowSize, sampleRate)
+        )
+        : analysisChannels.map((channel, i) => computeWindowFeature(
+            channel, windowStarts, windowSize, features[i] ?? 'rms', sampleRate, null
+        ));
+    const chroma = vizMode === 'chroma'
+        ? computeWindowChroma(
+            analysisChannels[0],
+            windowStarts,
+            createWindowFunction('hann', windowSize),
+            computeChromaBins(windowSize, sampleRate)
+        )
+        : null;
+
+    const curve = createCurve(curveType, { samplesPerBeat, beatsPerBar, subdivisionRadix });
+    const { width, height } = curve.getCanvasSize(totalWindows);
+    const zOrderOffset = Math.round(timeToBeat(offsetSeconds, gridTempoMap) * samplesPerBeat);
+
+    const stereo = vizMode === 'balance' ? computeStereoBalance(powers[0], powers[1]) : null;
+    const monoPowers = stereo ? stereo.powers
+        : vizMode === 'onset' ? computeOnsetStrength(powers[0], samplesPerBeat)
+        : powers[0];
+
+    const pixels = new Uint32Array(width * height);
+    renderPixels(
+        {
+            cachedPowers: vizMode === 'rgb' || vizMode === 'bands' ? null : monoPowers,
+            cachedRGBPowers: vizMode === 'rgb' ? { low: powers[0], mid: powers[1], high: powers[2] } : null,
+            cachedBalance: stereo ? stereo.balance : null,
+            cachedBandPowers: vizMode === 'bands' ? powers : null,
+            cachedBandColors: spectralBands.map(band => band.color),
+            cachedChroma: chroma,
+            cachedVizMode: vizMode,
+            maxPowerMono: findMaxPower(monoPowers),
+            maxPowerRGB: vizMode === 'rgb'
+                ? { low: findMaxPower(powers[0]), mid: findMaxPower(powers[1]), high: findMaxPower(powers[2]) }
+                : { low: 1, mid: 1, high: 1 },
+            maxPowerBands: vizMode === 'bands' ? powers.map(findMaxPower) : [],
+            colorSettings
+        },
+        pixels,
+        buildCoordinateLUT(curve, width, height),
+        zOrderOffset
+    );
+
+    const metadata = buildExportMetadata(
+        basename(inputPath),
+        {
+            tempoMap,
+            samplesPerBeat,
+            subdivisionRadix,
+            windowSize,
+            vizMode,
+            channelSource,
+            monoFeature,
+            rgbSources: [rgbSources[0], rgbSources[1], rgbSources[2]],
+            onsetMethod,
+            lowMidCutoff,
+            midHighCutoff,
+            spectralBands,
+            windowFunction,
+            driftCorrection: values['drift-correction']!
+        },
+        colorSettings,
+        curveType,
+        beatsPerBar,
+        offsetSeconds
+    );
+    const png = await encodePNG(width, height, new Uint8Array(pixels.buffer), metadata);
+    await writeFile(outputPath, png);
+    console.log(`${outputPath}: ${width}×${height}, ${totalWindows} windows`);
+}
+
+main(process.argv.slice(2)).catch((error: Error) => {
+    console.error(`Error: ${error.message}`);
+    process.exitCode = 1;
+});
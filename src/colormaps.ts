@@ -0,0 +1,144 @@
+// Colormaps and Level Scaling
+// Colormap tables, custom gradients and the linear, dB and gamma mapping of normalized levels
+
+import { viridisMap } from './constants.js';
+import type { ColormapName, ColorSettings, RGBColor } from './types.js';
+
+// Entries in every colormap table
+const COLORMAP_SIZE = 256;
+
+// Evenly spaced stops of the matplotlib colormaps, interpolated to COLORMAP_SIZE entries
+const COLORMAP_STOPS: Record<Exclude<ColormapName, 'viridis' | 'custom'>, RGBColor[]> = {
+    magma: [
+        [0, 0, 4], [28, 16, 68], [79, 18, 123], [129, 37, 129], [181, 54, 122],
+        [229, 80, 100], [251, 135, 97], [254, 194, 135], [252, 253, 191]
+    ],
+    inferno: [
+        [0, 0, 4], [31, 12, 72], [85, 15, 109], [136, 34, 106], [186, 54, 85],
+        [227, 89, 51], [249, 142, 9], [248, 201, 50], [252, 255, 164]
+    ],
+    cividis: [
+        [0, 34, 78], [18, 53, 112], [59, 73, 108], [87, 93, 109], [112, 113, 115],
+        [138, 135, 121], [166, 157, 117], [196, 181, 108], [254, 232, 56]
+    ],
+    grayscale: [[0, 0, 0], [255, 255, 255]]
+};
+
+/**
+ * Parse a "#rrggbb" color
+ * @param text - Hex color
+ * @returns RGB color, or null if the text is not a hex color
+ */
+export function parseHexColor(text: string): RGBColor | null {
+    const match = /^#?([0-9a-f]{6})$/i.exec(text);
+    if (!match) return null;
+    const value = parseInt(match[1], 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * Format a color as "#rrggbb"
+ * @param color - RGB color
+ * @returns Hex color
+ */
+export function formatHexColor([r, g, b]: RGBColor): string {
+    return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`;
+}
+
+/**
+ * Create the default color settings: Viridis, linear, normalized to the maximum
+ * @returns Color settings
+ */
+export function createDefaultColorSettings(): ColorSettings {
+    return {
+        colormap: 'viridis',
+        customColormap: [[0, 0, 0], [255, 0, 0], [255, 255, 0], [255, 255, 255]],
+        scaling: 'linear',
+        dbFloor: -60,
+        gamma: 0.5,
+        percentile: 100
+    };
+}
+
+/**
+ * Interpolate gradient stops into a colormap table
+ * @param stops - Evenly spaced colors, low to high (at least 2)
+ * @returns COLORMAP_SIZE colors
+ */
+function interpolateStops(stops: RGBColor[]): RGBColor[] {
+    return Array.from({ length: COLORMAP_SIZE }, (_, i) => {
+        const position = (i / (COLORMAP_SIZE - 1)) * (stops.length - 1);
+        const index = Math.min(stops.length - 2, Math.floor(position));
+        const t = position - index;
+        const [from, to] = [stops[index], stops[index + 1]];
+        return [0, 1, 2].map(c => Math.round(from[c] + (to[c] - from[c]) * t)) as RGBColor;
+    });
+}
+
+/**
+ * Get the colormap table of the color settings
+ * @param settings - Color settings
+ * @returns COLORMAP_SIZE colors, low to high
+ */
+export function getColormap(settings: Pick<ColorSettings, 'colormap' | 'customColormap'>): RGBColor[] {
+    if (settings.colormap === 'viridis') return viridisMap;
+    if (settings.colormap === 'custom') return interpolateStops(settings.customColormap);
+    return interpolateStops(COLORMAP_STOPS[settings.colormap]);
+}
+
+/**
+ * Parse a custom gradient: "#rrggbb" stops separated by commas, spaces or new lines
+ * @param text - Gradient text
+ * @returns Stops, low to high
+ */
+export function parseColormapStops(text: string): RGBColor[] {
+    const stops = text.split(/[\s,;]+/).filter(field => field.length > 0).map(field => {
+        const color = parseHexColor(field);
+        if (!color) throw new Error(`"${field}" is not a #rrggbb color`);
+        return color;
+    });
+    if (stops.length < 2) {
+        throw new Error('A gradient needs at least two colors');
+    }
+    return stops;
+}
+
+/**
+ * Format custom gradient stops
+ * @param stops - Stops, low to high
+ * @returns Comma-separated "#rrggbb" colors
+ */
+export function formatColormapStops(stops: RGBColor[]): string {
+    return stops.map(formatHexColor).join(', ');
+}
+
+/**
+ * Map a normalized level to color intensity
+ * dB maps dbFloor..0 dB of the (amplitude) level linearly; gamma raises the level to the gamma,
+ * so values below 1 lift quiet windows.
+ * @param level - Value divided by the normalization maximum (NaN counts as 0)
+ * @param settings - Color settings
+ * @returns Intensity (0-1)
+ */
+export function scaleLevel(level: number, settings: Pick<ColorSettings, 'scaling' | 'dbFloor' | 'gamma'>): number {
+    const clamped = level > 0 ? Math.min(1, level) : 0;
+    if (settings.scaling === 'db') {
+        if (clamped === 0) return 0;
+        return Math.max(0, 1 - (20 * Math.log10(clamped)) / settings.dbFloor);
+    }
+    if (settings.scaling === 'gamma') return Math.pow(clamped, settings.gamma);
+    return clamped;
+}
+
+/**
+ * Describe the scaling and normalization in a few words
+ * @param settings - Color settings
+ * @returns Description such as "dB (-60 dB floor), 99th percentile"
+ */
+export function describeColorScaling(settings: ColorSettings): string {
+    const scaling = settings.scaling === 'db' ? `dB (${settings.dbFloor} dB floor)`
+        : settings.scaling === 'gamma' ? `gamma ${settings.gamma}`
+        : 'linear';
+    const normalization = settings.percentile >= 100 ? 'max' : `${settings.percentile}th percentile`;
+    return `${scaling}, ${normalization}`;
+}
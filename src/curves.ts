@@ -0,0 +1,325 @@
+// Space-Filling Curve Layouts
+// Pluggable 1D index <-> 2D coordinate mappings used to lay out audio windows
+
+import { interleave, getZOrderCoordinates } from './z-order.js';
+import type { Coordinates, CanvasSize, CurveType, CurveParams, SpaceFillingCurve } from './types.js';
+
+// Hilbert curve side length (2^16), matching the 16 bits handled by the Z-order helpers
+const HILBERT_SIZE = 1 << 16;
+
+// Peano curve order (side length 3^10, roughly the same capacity as the Hilbert curve)
+const PEANO_ORDER = 10;
+
+// Radix used for levels above the bar (pairs of bars, phrases, sections)
+const PHRASE_RADIX = 2;
+
+/**
+ * Create a space-filling curve of the given type
+ * @param type - Curve type
+ * @param params - Layout parameters
+ * @returns Curve with forward and inverse mapping
+ */
+export function createCurve(type: CurveType, params: CurveParams): SpaceFillingCurve {
+    switch (type) {
+        case 'hilbert':
+            return {
+                type,
+                indexToCoordinates: hilbertIndexToCoordinates,
+                coordinatesToIndex: hilbertCoordinatesToIndex,
+                getCanvasSize: (totalWindows) => measureCanvasSize(hilbertIndexToCoordinates, totalWindows)
+            };
+        case 'peano':
+            return {
+                type,
+                indexToCoordinates: peanoIndexToCoordinates,
+                coordinatesToIndex: peanoCoordinatesToIndex,
+                getCanvasSize: (totalWindows) => measureCanvasSize(peanoIndexToCoordinates, totalWindows)
+            };
+        case 'rowmajor': {
+            const rowWidth = params.samplesPerBeat * params.beatsPerBar;
+            return {
+                type,
+                indexToCoordinates: (index) => ({ x: index % rowWidth, y: Math.floor(index / rowWidth) }),
+                coordinatesToIndex: (x, y) => y * rowWidth + x,
+                getCanvasSize: (totalWindows) => ({
+                    width: Math.min(rowWidth, Math.max(1, totalWindows)),
+                    height: Math.max(1, Math.ceil(totalWindows / rowWidth))
+                })
+            };
+        }
+        case 'zorder':
+        default: {
+            const radices = getMeterRadices(params);
+
+            // Binary meters are plain Morton order; use the bit-interleaving fast path
+            if (radices.every(radix => radix === 2)) {
+                const zOrderIndexToCoordinates = (index: number) => getZOrderCoordinates(index, 0);
+                return {
+                    type: 'zorder',
+                    indexToCoordinates: zOrderIndexToCoordinates,
+                    coordinatesToIndex: interleave,
+                    getCanvasSize: (totalWindows) => measureCanvasSize(zOrderIndexToCoordinates, totalWindows)
+                };
+            }
+
+            const mixedIndexToCoordinates = (index: number) => mixedRadixIndexToCoordinates(index, radices);
+            return {
+                type: 'zorder',
+                indexToCoordinates: mixedIndexToCoordinates,
+                coordinatesToIndex: (x, y) => mixedRadixCoordinatesToIndex(x, y, radices),
+                getCanvasSize: (totalWindows) => measureCanvasSize(mixedIndexToCoordinates, totalWindows)
+            };
+        }
+    }
+}
+
+/**
+ * Get the radix of each Z-order level, from finest (within a beat) to coarsest
+ * Subdivisions of the beat come first, then the beats of a bar, then pairs of bars.
+ * Levels past the end of the list use radix 2.
+ * @param params - Layout parameters
+ * @returns Radix per level
+ */
+export function getMeterRadices(params: CurveParams): number[] {
+    const { samplesPerBeat, beatsPerBar, subdivisionRadix } = params;
+    const radices: number[] = [];
+
+    // Subdivision levels: split the beat by the subdivision radix as far as it divides
+    let remaining = samplesPerBeat;
+    while (subdivisionRadix > 1 && remaining % subdivisionRadix === 0 && remaining > 1) {
+        radices.push(subdivisionRadix);
+        remaining /= subdivisionRadix;
+    }
+    radices.push(...primeFactors(remaining));
+
+    // Beat level: a bar of 4 becomes 2×2, a bar of 3 a single 3-wide tile
+    radices.push(...primeFactors(beatsPerBar));
+
+    return radices;
+}
+
+/**
+ * Factorize a positive integer into ascending prime factors
+ */
+function primeFactors(n: number): number[] {
+    const factors: number[] = [];
+    for (let p = 2; p * p <= n; p++) {
+        while (n % p === 0) {
+            factors.push(p);
+            n /= p;
+        }
+    }
+    if (n > 1) factors.push(n);
+    return factors;
+}
+
+/**
+ * Convert linear index to 2D coordinates using mixed-radix Z-order
+ * Generalizes Morton order: each level's digit goes alternately to x and y
+ * @param index - Linear index
+ * @param radices - Radix per level, finest first
+ * @returns 2D coordinates
+ */
+function mixedRadixIndexToCoordinates(index: number, radices: number[]): Coordinates {
+    let x = 0, y = 0;
+    let xScale = 1, yScale = 1;
+    let t = index;
+    for (let level = 0; t > 0; level++) {
+        const radix = level < radices.length ? radices[level] : PHRASE_RADIX;
+        const digit = t % radix;
+        t = Math.floor(t / radix);
+        if (level % 2 === 0) {
+            x += digit * xScale;
+            xScale *= radix;
+        } else {
+            y += digit * yScale;
+            yScale *= radix;
+        }
+    }
+    return { x, y };
+}
+
+/**
+ * Convert 2D coordinates to linear index using mixed-radix Z-order
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @param radices - Radix per level, finest first
+ * @returns Linear index
+ */
+function mixedRadixCoordinatesToIndex(x: number, y: number, radices: number[]): number {
+    let index = 0;
+    let scale = 1;
+    for (let level = 0; x > 0 || y > 0; level++) {
+        const radix = level < radices.length ? radices[level] : PHRASE_RADIX;
+        let digit: number;
+        if (level % 2 === 0) {
+            digit = x % radix;
+            x = Math.floor(x / radix);
+        } else {
+            digit = y % radix;
+            y = Math.floor(y / radix);
+        }
+        index += digit * scale;
+        scale *= radix;
+    }
+    return index;
+}
+
+/**
+ * Map a window index to canvas coordinates, clipped to the canvas
+ * @param curve - Curve layout
+ * @param index - Window index including Z-order offset
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @returns Canvas coordinates or null if the index falls outside the canvas
+ */
+export function getCanvasCoordinates(
+    curve: SpaceFillingCurve,
+    index: number,
+    width: number,
+    height: number
+): Coordinates | null {
+    if (index < 0) return null;
+    const coords = curve.indexToCoordinates(index);
+    if (coords.x >= width || coords.y >= height) return null;
+    return coords;
+}
+
+/**
+ * Build a lookup table of the curve index at every canvas pixel
+ * Rendering with a window offset then needs no per-pixel curve math.
+ * @param curve - Curve layout
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @returns Curve index per pixel, in row-major pixel order
+ */
+export function buildCoordinateLUT(curve: SpaceFillingCurve, width: number, height: number): Uint32Array {
+    const lut = new Uint32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            lut[y * width + x] = curve.coordinatesToIndex(x, y);
+        }
+    }
+    return lut;
+}
+
+/**
+ * Find the minimal canvas containing the first totalWindows points of a curve
+ * @param indexToCoordinates - Forward curve mapping
+ * @param totalWindows - Number of windows to place
+ * @returns Canvas dimensions
+ */
+function measureCanvasSize(indexToCoordinates: (index: number) => Coordinates, totalWindows: number): CanvasSize {
+    let maxX = 0;
+    let maxY = 0;
+    for (let i = 0; i < totalWindows; i++) {
+        const { x, y } = indexToCoordinates(i);
+        if (x > maxX) maxX = x;
+        if (y > maxY) maxY = y;
+    }
+    return { width: maxX + 1, height: maxY + 1 };
+}
+
+/**
+ * Rotate/flip a Hilbert quadrant so sub-curves connect end to end
+ */
+function hilbertRotate(size: number, x: number, y: number, rx: number, ry: number): Coordinates {
+    if (ry === 0) {
+        if (rx === 1) {
+            x = size - 1 - x;
+            y = size - 1 - y;
+        }
+        return { x: y, y: x };
+    }
+    return { x, y };
+}
+
+/**
+ * Convert linear index to 2D coordinates using Hilbert curve
+ * @param index - Linear index
+ * @returns 2D coordinates
+ */
+function hilbertIndexToCoordinates(index: number): Coordinates {
+    let t = index;
+    let x = 0, y = 0;
+    for (let s = 1; s < HILBERT_SIZE; s *= 2) {
+        const rx = Math.floor(t / 2) % 2;
+        const ry = (t % 2) ^ rx;
+        ({ x, y } = hilbertRotate(s, x, y, rx, ry));
+        x += s * rx;
+        y += s * ry;
+        t = Math.floor(t / 4);
+    }
+    return { x, y };
+}
+
+/**
+ * Convert 2D coordinates to linear index using Hilbert curve
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @returns Linear index
+ */
+function hilbertCoordinatesToIndex(x: number, y: number): number {
+    let index = 0;
+    for (let s = HILBERT_SIZE / 2; s > 0; s = Math.floor(s / 2)) {
+        const rx = (x & s) > 0 ? 1 : 0;
+        const ry = (y & s) > 0 ? 1 : 0;
+        index += s * s * ((3 * rx) ^ ry);
+        ({ x, y } = hilbertRotate(HILBERT_SIZE, x, y, rx, ry));
+    }
+    return index;
+}
+
+/**
+ * Convert linear index to 2D coordinates using Peano curve
+ * Base-3 digits alternate between x and y; a digit is mirrored when the
+ * digits of the other axis before it sum to an odd number (serpentine order)
+ * @param index - Linear index
+ * @returns 2D coordinates
+ */
+function peanoIndexToCoordinates(index: number): Coordinates {
+    const digits: number[] = new Array(PEANO_ORDER * 2);
+    let t = index;
+    for (let i = digits.length - 1; i >= 0; i--) {
+        digits[i] = t % 3;
+        t = Math.floor(t / 3);
+    }
+
+    let x = 0, y = 0;
+    let xDigitSum = 0, yDigitSum = 0;
+    for (let i = 0; i < PEANO_ORDER; i++) {
+        const dx = digits[2 * i];
+        x = x * 3 + (yDigitSum % 2 ? 2 - dx : dx);
+        xDigitSum += dx;
+
+        const dy = digits[2 * i + 1];
+        y = y * 3 + (xDigitSum % 2 ? 2 - dy : dy);
+        yDigitSum += dy;
+    }
+    return { x, y };
+}
+
+/**
+ * Convert 2D coordinates to linear index using Peano curve
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @returns Linear index
+ */
+function peanoCoordinatesToIndex(x: number, y: number): number {
+    let scale = Math.pow(3, PEANO_ORDER - 1);
+    let index = 0;
+    let xDigitSum = 0, yDigitSum = 0;
+    for (let i = 0; i < PEANO_ORDER; i++) {
+        const cx = Math.floor(x / scale) % 3;
+        const dx = yDigitSum % 2 ? 2 - cx : cx;
+        xDigitSum += dx;
+
+        const cy = Math.floor(y / scale) % 3;
+        const dy = xDigitSum % 2 ? 2 - cy : cy;
+        yDigitSum += dy;
+
+        index = index * 9 + dx * 3 + dy;
+        scale /= 3;
+    }
+    return index;
+}
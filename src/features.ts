@@ -0,0 +1,139 @@
+// Window Features
+// Per-window feature extractors: RMS, spectral centroid, flux and flatness, high-frequency content
+// and zero-crossing rate
+
+import { computeWindowPowers } from './audio-processor.js';
+import { computePowerSpectrum, createSpectrumScratch, createWindowFunction } from './spectrum.js';
+import type { WindowFeature } from './types.js';
+
+// Floor for the geometric mean of spectral flatness, so one silent bin does not zero it
+const FLATNESS_EPSILON = 1e-12;
+
+/**
+ * Check whether a feature is computed from the FFT spectrum (and so needs a power-of-2 window)
+ * @param feature - Window feature
+ * @returns True for every feature but RMS and zero-crossing rate
+ */
+export function isSpectralFeature(feature: WindowFeature): boolean {
+    return feature !== 'rms' && feature !== 'zcr';
+}
+
+/**
+ * Calculate the zero-crossing rate of every window
+ * @param audioData - Audio sample data
+ * @param windowStarts - Start sample per window
+ * @param windowSize - Window size in samples
+ * @returns Fraction of sample pairs that change sign (0-1) per window
+ */
+function computeWindowZeroCrossings(audioData: Float32Array, windowStarts: Uint32Array, windowSize: number): Float32Array {
+    const rates = new Float32Array(windowStarts.length);
+    for (let i = 0; i < windowStarts.length; i++) {
+        const start = windowStarts[i];
+        const end = Math.min(start + windowSize, audioData.length);
+        let crossings = 0;
+        for (let j = start + 1; j < end; j++) {
+            if ((audioData[j - 1] < 0) !== (audioData[j] < 0)) crossings++;
+        }
+        rates[i] = end - start > 1 ? crossings / (end - start - 1) : 0;
+    }
+    return rates;
+}
+
+/**
+ * Calculate a spectral feature of every window from its Hann-windowed magnitude spectrum
+ * Centroid is in Hz; flux is the half-wave rectified magnitude increase over the previous
+ * window, scaled by the window length; flatness is the geometric over the arithmetic mean
+ * of the power spectrum (0 = tonal, 1 = white noise); high-frequency content is the power
+ * spectrum weighted by bin index, so percussive broadband hits dominate it.
+ * @param audioData - Audio sample data
+ * @param windowStarts - Start sample per window
+ * @param windowSize - Window size in samples (power of 2)
+ * @param feature - Centroid, flux, flatness or high-frequency content
+ * @param sampleRate - Audio sample rate
+ * @param previousStart - Start of the window before the first one, for flux (null at the start of the grid)
+ * @returns Feature value per window
+ */
+function computeWindowSpectralFeature(
+    audioData: Float32Array,
+    windowStarts: Uint32Array,
+    windowSize: number,
+    feature: WindowFeature,
+    sampleRate: number,
+    previousStart: number | null
+): Float32Array {
+    const values = new Float32Array(windowStarts.length);
+    const window = createWindowFunction('hann', windowSize);
+    const scratch = createSpectrumScratch(windowSize);
+    const bins = windowSize / 2 + 1;
+    const binWidth = sampleRate / windowSize;
+
+    // Magnitudes of the previous window for flux
+    let previous: Float64Array | null = null;
+    if (feature === 'flux' && previousStart !== null) {
+        computePowerSpectrum(audioData, previousStart, window, scratch);
+        previous = scratch.power.map(Math.sqrt);
+    }
+
+    for (let i = 0; i < windowStarts.length; i++) {
+        computePowerSpectrum(audioData, windowStarts[i], window, scratch);
+        const { power } = scratch;
+
+        if (feature === 'centroid') {
+            let weighted = 0, total = 0;
+            for (let k = 0; k < bins; k++) {
+                const magnitude = Math.sqrt(power[k]);
+                weighted += k * binWidth * magnitude;
+                total += magnitude;
+            }
+            values[i] = total > 0 ? weighted / total : 0;
+        } else if (feature === 'flux') {
+            const magnitudes = power.map(Math.sqrt);
+            let flux = 0;
+            if (previous) {
+                for (let k = 0; k < bins; k++) {
+                    flux += Math.max(0, magnitudes[k] - previous[k]);
+                }
+            }
+            values[i] = flux / windowSize;
+            previous = magnitudes;
+        } else if (feature === 'hfc') {
+            let weighted = 0;
+            for (let k = 1; k < bins; k++) {
+                weighted += k * power[k];
+            }
+            values[i] = Math.sqrt(weighted / bins) / windowSize;
+        } else {
+            // DC is left out: it carries offset, not timbre; silence counts as tonal
+            let logSum = 0, sum = 0;
+            for (let k = 1; k < bins; k++) {
+                logSum += Math.log(power[k] + FLATNESS_EPSILON);
+                sum += power[k];
+            }
+            values[i] = sum > 0 ? Math.min(1, Math.exp(logSum / (bins - 1)) / (sum / (bins - 1))) : 0;
+        }
+    }
+    return values;
+}
+
+/**
+ * Calculate a feature of every window
+ * @param audioData - Audio sample data
+ * @param windowStarts - Start sample per window
+ * @param windowSize - Window size in samples (a power of 2 for spectral features)
+ * @param feature - Feature to extract
+ * @param sampleRate - Audio sample rate
+ * @param previousStart - Start of the window before the first one (null at the start of the grid)
+ * @returns Feature value per window
+ */
+export function computeWindowFeature(
+    audioData: Float32Array,
+    windowStarts: Uint32Array,
+    windowSize: number,
+    feature: WindowFeature,
+    sampleRate: number,
+    previousStart: number | null
+): Float32Array {
+    if (feature === 'rms') return computeWindowPowers(audioData, windowStarts, windowSize);
+    if (feature === 'zcr') return computeWindowZeroCrossings(audioData, windowStarts, windowSize);
+    return computeWindowSpectralFeature(audioData, windowStarts, windowSize, feature, sampleRate, previousStart);
+}
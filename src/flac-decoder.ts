@@ -0,0 +1,380 @@
+// FLAC Decoding
+// Pure TypeScript FLAC stream decoder (fixed and LPC subframes, Rice-coded residuals)
+
+import type { DecodedAudio } from './types.js';
+
+// Bits per sample for frame header sample size codes (0 = from STREAMINFO)
+const SAMPLE_SIZES = [0, 8, 12, 0, 16, 20, 24, 32];
+
+const CHANNELS_LEFT_SIDE = 8;
+const CHANNELS_SIDE_RIGHT = 9;
+const CHANNELS_MID_SIDE = 10;
+
+/**
+ * Bit-level reader over a byte array, most significant bit first
+ */
+interface BitReader {
+    bytes: Uint8Array;
+    bytePos: number;
+    bitPos: number;
+}
+
+/**
+ * Stream parameters from the STREAMINFO block
+ */
+interface StreamInfo {
+    sampleRate: number;
+    channelCount: number;
+    bitsPerSample: number;
+    totalSamples: number;
+}
+
+/**
+ * Read an unsigned integer of up to 32 bits
+ */
+function readBits(reader: BitReader, count: number): number {
+    let value = 0;
+    while (count > 0) {
+        if (reader.bytePos >= reader.bytes.length) throw new Error('Unexpected end of FLAC data');
+        const available = 8 - reader.bitPos;
+        const take = Math.min(available, count);
+        const bits = (reader.bytes[reader.bytePos] >> (available - take)) & ((1 << take) - 1);
+        // Multiply rather than shift so 32-bit values stay positive
+        value = value * (1 << take) + bits;
+        reader.bitPos += take;
+        if (reader.bitPos === 8) {
+            reader.bitPos = 0;
+            reader.bytePos++;
+        }
+        count -= take;
+    }
+    return value;
+}
+
+/**
+ * Read a two's complement signed integer of up to 32 bits
+ */
+function readSignedBits(reader: BitReader, count: number): number {
+    if (count === 0) return 0;
+    const value = readBits(reader, count);
+    const signBit = Math.pow(2, count - 1);
+    return value >= signBit ? value - 2 * signBit : value;
+}
+
+/**
+ * Read a unary-coded value (number of zero bits before a one bit)
+ */
+function readUnary(reader: BitReader): number {
+    let count = 0;
+    for (;;) {
+        if (reader.bytePos >= reader.bytes.length) throw new Error('Unexpected end of FLAC data');
+        // Remaining bits of the current byte, moved to the top of the byte
+        const bits = (reader.bytes[reader.bytePos] << reader.bitPos) & 0xff;
+        if (bits !== 0) {
+            const zeros = Math.clz32(bits) - 24;
+            count += zeros;
+            reader.bitPos += zeros + 1;
+            if (reader.bitPos === 8) {
+                reader.bitPos = 0;
+                reader.bytePos++;
+            }
+            return count;
+        }
+        count += 8 - reader.bitPos;
+        reader.bitPos = 0;
+        reader.bytePos++;
+    }
+}
+
+/**
+ * Skip to the next byte boundary
+ */
+function alignToByte(reader: BitReader): void {
+    if (reader.bitPos !== 0) {
+        reader.bitPos = 0;
+        reader.bytePos++;
+    }
+}
+
+/**
+ * Check whether data starts with a FLAC stream marker (optionally after an ID3v2 tag)
+ * @param data - File contents
+ * @returns True for FLAC files
+ */
+export function isFlac(data: ArrayBuffer): boolean {
+    const bytes = new Uint8Array(data);
+    const start = skipID3(bytes);
+    return bytes.length >= start + 4 && String.fromCharCode(...bytes.subarray(start, start + 4)) === 'fLaC';
+}
+
+/**
+ * Get the length of a leading ID3v2 tag, or 0 if there is none
+ */
+function skipID3(bytes: Uint8Array): number {
+    if (bytes.length < 10 || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return 0;
+    // Tag size is a 28-bit syncsafe integer
+    const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+    return 10 + size;
+}
+
+/**
+ * Decode a FLAC file
+ * @param data - File contents
+ * @returns Sample rate and samples per channel in [-1, 1]
+ */
+export function decodeFlac(data: ArrayBuffer): DecodedAudio {
+    const bytes = new Uint8Array(data);
+    if (!isFlac(data)) {
+        throw new Error('Not a FLAC file');
+    }
+
+    const reader: BitReader = { bytes, bytePos: skipID3(bytes) + 4, bitPos: 0 };
+    const info = readMetadata(reader);
+
+    // Decoded blocks per channel; concatenated at the end since the total length may be unknown
+    const blocks: Int32Array[][] = Array.from({ length: info.channelCount }, () => []);
+    let decodedSamples = 0;
+
+    while (reader.bytePos + 2 <= bytes.length) {
+        // Frames start with the 14-bit sync code 0b11111111111110
+        if (bytes[reader.bytePos] !== 0xff || (bytes[reader.bytePos + 1] & 0xfc) !== 0xf8) {
+            reader.bytePos++;
+            continue;
+        }
+        const frame = decodeFrame(reader, info);
+        frame.forEach((samples, c) => blocks[c].push(samples));
+        decodedSamples += frame[0].length;
+    }
+
+    const frameCount = info.totalSamples > 0 ? Math.min(info.totalSamples, decodedSamples) : decodedSamples;
+    const scale = 1 / Math.pow(2, info.bitsPerSample - 1);
+    const channels = blocks.map(channelBlocks => {
+        const channel = new Float32Array(frameCount);
+        let offset = 0;
+        for (const block of channelBlocks) {
+            for (let i = 0; i < block.length && offset < frameCount; i++) {
+                channel[offset++] = block[i] * scale;
+            }
+        }
+        return channel;
+    });
+
+    return { sampleRate: info.sampleRate, channels };
+}
+
+/**
+ * Read the metadata blocks, returning the stream info
+ */
+function readMetadata(reader: BitReader): StreamInfo {
+    let info: StreamInfo | null = null;
+    let isLast = false;
+
+    while (!isLast) {
+        isLast = readBits(reader, 1) === 1;
+        const type = readBits(reader, 7);
+        const length = readBits(reader, 24);
+        const end = reader.bytePos + length;
+
+        if (type === 0) {
+            readBits(reader, 16); // Minimum block size
+            readBits(reader, 16); // Maximum block size
+            readBits(reader, 24); // Minimum frame size
+            readBits(reader, 24); // Maximum frame size
+            const sampleRate = readBits(reader, 20);
+            const channelCount = readBits(reader, 3) + 1;
+            const bitsPerSample = readBits(reader, 5) + 1;
+            const totalSamples = readBits(reader, 4) * 0x100000000 + readBits(reader, 32);
+            info = { sampleRate, channelCount, bitsPerSample, totalSamples };
+        }
+
+        reader.bytePos = end;
+        reader.bitPos = 0;
+    }
+
+    if (!info) throw new Error('FLAC file has no STREAMINFO block');
+    return info;
+}
+
+/**
+ * Decode one frame
+ * @returns Decoded integer samples per channel
+ */
+function decodeFrame(reader: BitReader, info: StreamInfo): Int32Array[] {
+    readBits(reader, 14); // Sync code
+    readBits(reader, 1); // Reserved
+    readBits(reader, 1); // Blocking strategy
+
+    const blockSizeCode = readBits(reader, 4);
+    const sampleRateCode = readBits(reader, 4);
+    const channelAssignment = readBits(reader, 4);
+    const sampleSizeCode = readBits(reader, 3);
+    readBits(reader, 1); // Reserved
+
+    // Frame or sample number, UTF-8 style variable-length coding
+    const first = readBits(reader, 8);
+    for (let mask = 0x80; first & mask && mask > 1; mask >>= 1) {
+        if (mask !== 0x80) readBits(reader, 8);
+    }
+
+    let blockSize: number;
+    if (blockSizeCode === 1) blockSize = 192;
+    else if (blockSizeCode >= 2 && blockSizeCode <= 5) blockSize = 576 << (blockSizeCode - 2);
+    else if (blockSizeCode === 6) blockSize = readBits(reader, 8) + 1;
+    else if (blockSizeCode === 7) blockSize = readBits(reader, 16) + 1;
+    else if (blockSizeCode >= 8) blockSize = 256 << (blockSizeCode - 8);
+    else throw new Error('Reserved FLAC block size');
+
+    // Sample rate overrides are read past; the stream info rate is used
+    if (sampleRateCode === 12) readBits(reader, 8);
+    else if (sampleRateCode === 13 || sampleRateCode === 14) readBits(reader, 16);
+    else if (sampleRateCode === 15) throw new Error('Invalid FLAC sample rate');
+
+    const bitsPerSample = sampleSizeCode === 0 ? info.bitsPerSample : SAMPLE_SIZES[sampleSizeCode];
+    if (!bitsPerSample) throw new Error('Reserved FLAC sample size');
+
+    readBits(reader, 8); // Header CRC-8
+
+    const channelCount = channelAssignment < CHANNELS_LEFT_SIDE ? channelAssignment + 1 : 2;
+    const channels: Int32Array[] = [];
+    for (let c = 0; c < channelCount; c++) {
+        // The side channel carries one extra bit
+        const isSide =
+            (channelAssignment === CHANNELS_LEFT_SIDE && c === 1) ||
+            (channelAssignment === CHANNELS_SIDE_RIGHT && c === 0) ||
+            (channelAssignment === CHANNELS_MID_SIDE && c === 1);
+        channels.push(decodeSubframe(reader, blockSize, bitsPerSample + (isSide ? 1 : 0)));
+    }
+
+    alignToByte(reader);
+    readBits(reader, 16); // Frame CRC-16
+
+    decorrelateChannels(channels, channelAssignment);
+    return channels;
+}
+
+/**
+ * Undo inter-channel decorrelation in place
+ */
+function decorrelateChannels(channels: Int32Array[], channelAssignment: number): void {
+    const [a, b] = channels;
+    switch (channelAssignment) {
+        case CHANNELS_LEFT_SIDE:
+            for (let i = 0; i < a.length; i++) b[i] = a[i] - b[i];
+            break;
+        case CHANNELS_SIDE_RIGHT:
+            for (let i = 0; i < a.length; i++) a[i] = a[i] + b[i];
+            break;
+        case CHANNELS_MID_SIDE:
+            for (let i = 0; i < a.length; i++) {
+                const side = b[i];
+                const mid = a[i] * 2 + (side & 1);
+                a[i] = (mid + side) >> 1;
+                b[i] = (mid - side) >> 1;
+            }
+            break;
+    }
+}
+
+/**
+ * Decode one subframe
+ * @param reader - Bit reader positioned at the subframe header
+ * @param blockSize - Samples in the block
+ * @param bitsPerSample - Sample size of this channel
+ * @returns Decoded integer samples
+ */
+function decodeSubframe(reader: BitReader, blockSize: number, bitsPerSample: number): Int32Array {
+    readBits(reader, 1); // Zero padding
+    const type = readBits(reader, 6);
+    const wastedBits = readBits(reader, 1) === 1 ? readUnary(reader) + 1 : 0;
+    const sampleBits = bitsPerSample - wastedBits;
+    const samples = new Int32Array(blockSize);
+
+    if (type === 0) {
+        samples.fill(readSignedBits(reader, sampleBits));
+    } else if (type === 1) {
+        for (let i = 0; i < blockSize; i++) samples[i] = readSignedBits(reader, sampleBits);
+    } else if (type >= 8 && type <= 12) {
+        decodeFixed(reader, samples, type - 8, sampleBits);
+    } else if (type >= 32) {
+        decodeLPC(reader, samples, type - 31, sampleBits);
+    } else {
+        throw new Error(`Reserved FLAC subframe type ${type}`);
+    }
+
+    if (wastedBits > 0) {
+        for (let i = 0; i < blockSize; i++) samples[i] <<= wastedBits;
+    }
+    return samples;
+}
+
+/**
+ * Decode a fixed-predictor subframe in place
+ */
+function decodeFixed(reader: BitReader, samples: Int32Array, order: number, sampleBits: number): void {
+    for (let i = 0; i < order; i++) samples[i] = readSignedBits(reader, sampleBits);
+    decodeResidual(reader, samples, order);
+
+    for (let i = order; i < samples.length; i++) {
+        switch (order) {
+            case 1: samples[i] += samples[i - 1]; break;
+            case 2: samples[i] += 2 * samples[i - 1] - samples[i - 2]; break;
+            case 3: samples[i] += 3 * samples[i - 1] - 3 * samples[i - 2] + samples[i - 3]; break;
+            case 4: samples[i] += 4 * samples[i - 1] - 6 * samples[i - 2] + 4 * samples[i - 3] - samples[i - 4]; break;
+        }
+    }
+}
+
+/**
+ * Decode a linear-prediction subframe in place
+ */
+function decodeLPC(reader: BitReader, samples: Int32Array, order: number, sampleBits: number): void {
+    for (let i = 0; i < order; i++) samples[i] = readSignedBits(reader, sampleBits);
+
+    const precision = readBits(reader, 4) + 1;
+    if (precision === 16) throw new Error('Invalid FLAC LPC precision');
+    const shift = readSignedBits(reader, 5);
+    const coefficients: number[] = [];
+    for (let j = 0; j < order; j++) coefficients.push(readSignedBits(reader, precision));
+
+    decodeResidual(reader, samples, order);
+
+    // Predictions can exceed 32 bits, so sum in doubles and divide instead of shifting
+    const divisor = Math.pow(2, Math.max(0, shift));
+    for (let i = order; i < samples.length; i++) {
+        let prediction = 0;
+        for (let j = 0; j < order; j++) prediction += coefficients[j] * samples[i - 1 - j];
+        samples[i] += Math.floor(prediction / divisor);
+    }
+}
+
+/**
+ * Decode a partitioned Rice-coded residual into samples[order..]
+ */
+function decodeResidual(reader: BitReader, samples: Int32Array, order: number): void {
+    const method = readBits(reader, 2);
+    if (method > 1) throw new Error('Reserved FLAC residual coding method');
+    const parameterBits = method === 0 ? 4 : 5;
+    const escapeCode = (1 << parameterBits) - 1;
+
+    const partitionOrder = readBits(reader, 4);
+    const partitionCount = 1 << partitionOrder;
+    const partitionSize = samples.length >> partitionOrder;
+
+    let i = order;
+    for (let p = 0; p < partitionCount; p++) {
+        const end = (p + 1) * partitionSize;
+        const parameter = readBits(reader, parameterBits);
+
+        if (parameter === escapeCode) {
+            // Escaped partition: fixed-width signed values
+            const bits = readBits(reader, 5);
+            for (; i < end; i++) samples[i] = readSignedBits(reader, bits);
+        } else {
+            for (; i < end; i++) {
+                const value = readUnary(reader) * (1 << parameter) + readBits(reader, parameter);
+                // Zigzag: even values are positive, odd values negative
+                samples[i] = value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+            }
+        }
+    }
+}
@@ -0,0 +1,165 @@
+// Bar Fold
+// Folding every bar or phrase of the cached window data onto one tile: the mean window and the spread across bars
+
+import { getNormalizationMax } from './visualizer.js';
+import type { PowerState } from './visualizer.js';
+import type { RGBColor, SpaceFillingCurve } from './types.js';
+
+/**
+ * Mean and variance of each position within a period of windows
+ */
+interface FoldedArray {
+    mean: Float32Array;
+    variance: Float32Array;
+}
+
+/**
+ * Fold window data onto one period of the curve: position p collects the windows at curve
+ * indices p, p + period, p + 2 × period, …, so the tile lines up with every tile on the canvas
+ * Positions missed by a partial first or last period average over one fewer window.
+ * @param values - Window data
+ * @param period - Windows per bar or phrase
+ * @param zOrderOffset - Z-order offset in windows (curve index of window 0)
+ * @returns Mean and (population) variance per position
+ */
+export function foldWindows(values: Float32Array, period: number, zOrderOffset: number): FoldedArray {
+    const sums = new Float64Array(period);
+    const squares = new Float64Array(period);
+    const counts = new Uint32Array(period);
+    const shift = ((zOrderOffset % period) + period) % period;
+    for (let i = 0; i < values.length; i++) {
+        const position = (i + shift) % period;
+        sums[position] += values[i];
+        squares[position] += values[i] * values[i];
+        counts[position]++;
+    }
+
+    const mean = new Float32Array(period);
+    const variance = new Float32Array(period);
+    for (let p = 0; p < period; p++) {
+        if (counts[p] === 0) continue;
+        mean[p] = sums[p] / counts[p];
+        variance[p] = Math.max(0, squares[p] / counts[p] - mean[p] * mean[p]);
+    }
+    return { mean, variance };
+}
+
+/**
+ * Fold the shown mode's window data into a state that renders as one tile of mean windows
+ * Normalization maxima are taken from the whole track, so the tile uses the canvas's colors.
+ * @param state - Cached window data, mode and color settings
+ * @param period - Windows per bar or phrase
+ * @param zOrderOffset - Z-order offset in windows
+ * @returns State holding one mean window per position
+ */
+export function foldPowerState(state: PowerState, period: number, zOrderOffset: number): PowerState {
+    const { cachedPowers, cachedRGBPowers, cachedBalance, cachedBandPowers, cachedChroma, colorSettings } = state;
+    const { percentile } = colorSettings;
+    const mean = (values: Float32Array) => foldWindows(values, period, zOrderOffset).mean;
+    return {
+        ...state,
+        cachedPowers: cachedPowers && mean(cachedPowers),
+        cachedRGBPowers: cachedRGBPowers && {
+            low: mean(cachedRGBPowers.low),
+            mid: mean(cachedRGBPowers.mid),
+            high: mean(cachedRGBPowers.high)
+        },
+        cachedBalance: cachedBalance && mean(cachedBalance),
+        cachedBandPowers: cachedBandPowers && cachedBandPowers.map(mean),
+        cachedChroma: cachedChroma && cachedChroma.map(mean),
+        maxPowerMono: cachedPowers ? getNormalizationMax(cachedPowers, state.maxPowerMono, percentile) : state.maxPowerMono,
+        maxPowerRGB: cachedRGBPowers
+            ? {
+                low: getNormalizationMax(cachedRGBPowers.low, state.maxPowerRGB.low, percentile),
+                mid: getNormalizationMax(cachedRGBPowers.mid, state.maxPowerRGB.mid, percentile),
+                high: getNormalizationMax(cachedRGBPowers.high, state.maxPowerRGB.high, percentile)
+            }
+            : state.maxPowerRGB,
+        maxPowerBands: cachedBandPowers
+            ? cachedBandPowers.map((band, i) => getNormalizationMax(band, state.maxPowerBands[i], percentile))
+            : state.maxPowerBands,
+        colorSettings: { ...colorSettings, percentile: 100 }
+    };
+}
+
+/**
+ * Measure how much each position varies from bar to bar
+ * Each array is divided by its maximum, so arrays in different units weigh the same; the
+ * spread of several arrays is the root mean square of their standard deviations.
+ * @param arrays - Window data arrays of equal length
+ * @param period - Windows per bar or phrase
+ * @param zOrderOffset - Z-order offset in windows
+ * @param measure - Standard deviation, or variance (its square)
+ * @returns Spread per position
+ */
+export function computeFoldSpread(
+    arrays: Float32Array[],
+    period: number,
+    zOrderOffset: number,
+    measure: 'std' | 'variance'
+): Float32Array {
+    const spread = new Float32Array(period);
+    for (const values of arrays) {
+        let max = 0;
+        for (let i = 0; i < values.length; i++) if (values[i] > max) max = values[i];
+        if (max === 0) continue;
+        const { variance } = foldWindows(values, period, zOrderOffset);
+        for (let p = 0; p < period; p++) spread[p] += variance[p] / (max * max) / arrays.length;
+    }
+    return measure === 'variance' ? spread : spread.map(Math.sqrt);
+}
+
+/**
+ * Lay out one period of curve indices, as the canvas lays out each of its tiles
+ * @param curve - Curve of the canvas
+ * @param period - Windows per bar or phrase
+ * @returns Tile size and the position under each pixel (period where the tile has no window)
+ */
+export function getFoldTileLayout(curve: SpaceFillingCurve, period: number): { width: number; height: number; positions: Uint32Array } {
+    let width = 0, height = 0;
+    const coordinates = Array.from({ length: period }, (_, p) => {
+        const point = curve.indexToCoordinates(p);
+        width = Math.max(width, point.x + 1);
+        height = Math.max(height, point.y + 1);
+        return point;
+    });
+
+    const positions = new Uint32Array(width * height).fill(period);
+    coordinates.forEach(({ x, y }, p) => {
+        positions[y * width + x] = p;
+    });
+    return { width, height, positions };
+}
+
+/**
+ * Draw the spread of each position through a colormap, stretched to the largest spread
+ * @param ctx - Target context, the tile's size
+ * @param spread - Spread per position
+ * @param positions - Position under each pixel from getFoldTileLayout
+ * @param colormap - Colors from no spread to the largest
+ */
+export function drawFoldSpread(
+    ctx: CanvasRenderingContext2D,
+    spread: Float32Array,
+    positions: Uint32Array,
+    colormap: RGBColor[]
+): void {
+    let max = 0;
+    for (let p = 0; p < spread.length; p++) if (spread[p] > max) max = spread[p];
+
+    const imageData = ctx.createImageData(ctx.canvas.width, ctx.canvas.height);
+    const { data } = imageData;
+    for (let i = 0; i < positions.length; i++) {
+        const position = positions[i];
+        const level = position < spread.length && max > 0 ? spread[position] / max : 0;
+        const [r, g, b] = position < spread.length
+            ? colormap[Math.min(colormap.length - 1, Math.floor(level * colormap.length))]
+            : [0, 0, 0];
+        data[i * 4] = r;
+        data[i * 4 + 1] = g;
+        data[i * 4 + 2] = b;
+        data[i * 4 + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+}
+
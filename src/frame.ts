@@ -0,0 +1,212 @@
+// Visualization Frame
+// Bar-range labels for the curve's power-of-two blocks and a colorbar with values, drawn around the visualization
+
+import { getColormap } from './colormaps.js';
+import type { AnalysisSettings, BarBlock, ColorSettings, WindowFeature } from './types.js';
+
+// Most labelled blocks; blocks grow by powers of two bars until they fit
+const MAX_BAR_BLOCKS = 16;
+
+// Ticks along the colorbar, including both ends
+const COLORBAR_TICKS = 5;
+
+export const FEATURE_TITLES: Record<WindowFeature, string> = {
+    rms: 'RMS power',
+    centroid: 'Spectral centroid (Hz)',
+    flux: 'Spectral flux',
+    flatness: 'Spectral flatness',
+    hfc: 'High-frequency content',
+    zcr: 'Zero-crossing rate'
+};
+
+/**
+ * Find the blocks of bars the curve lays out and where each one sits on the canvas
+ * Blocks are aligned to the curve (power-of-two numbers of bars from curve index 0), so with an
+ * offset a block can start or end mid-bar; its label then names every bar it touches.
+ * @param curveIndices - Curve index per pixel from getCoordinateLUT
+ * @param width - Canvas width
+ * @param totalWindows - Number of analysed windows
+ * @param zOrderOffset - Z-order offset in windows
+ * @param windowsPerBar - Windows per bar (samples per beat × beats per bar)
+ * @returns Blocks holding at least one window, in curve order
+ */
+export function computeBarBlocks(
+    curveIndices: Uint32Array,
+    width: number,
+    totalWindows: number,
+    zOrderOffset: number,
+    windowsPerBar: number
+): BarBlock[] {
+    const lastIndex = totalWindows - 1 + zOrderOffset;
+    if (lastIndex < 0) return [];
+
+    let blockBars = 1;
+    while (Math.ceil((lastIndex + 1) / (blockBars * windowsPerBar)) > MAX_BAR_BLOCKS) blockBars *= 2;
+    const blockSize = blockBars * windowsPerBar;
+    const count = Math.floor(lastIndex / blockSize) + 1;
+
+    const minX = new Float64Array(count).fill(Infinity);
+    const minY = new Float64Array(count).fill(Infinity);
+    const maxX = new Int32Array(count).fill(-1);
+    const maxY = new Int32Array(count).fill(-1);
+    const firstWindow = new Float64Array(count).fill(Infinity);
+    const lastWindow = new Float64Array(count).fill(-1);
+
+    for (let p = 0; p < curveIndices.length; p++) {
+        const index = curveIndices[p];
+        const window = index - zOrderOffset;
+        if (window < 0 || window >= totalWindows) continue;
+
+        const block = Math.floor(index / blockSize);
+        const x = p % width;
+        const y = (p - x) / width;
+        if (x < minX[block]) minX[block] = x;
+        if (x > maxX[block]) maxX[block] = x;
+        if (y < minY[block]) minY[block] = y;
+        if (y > maxY[block]) maxY[block] = y;
+        if (window < firstWindow[block]) firstWindow[block] = window;
+        if (window > lastWindow[block]) lastWindow[block] = window;
+    }
+
+    const blocks: BarBlock[] = [];
+    for (let block = 0; block < count; block++) {
+        if (maxX[block] < 0) continue;
+        blocks.push({
+            x: minX[block],
+            y: minY[block],
+            width: maxX[block] - minX[block] + 1,
+            height: maxY[block] - minY[block] + 1,
+            firstBar: Math.floor(firstWindow[block] / windowsPerBar) + 1,
+            lastBar: Math.floor(lastWindow[block] / windowsPerBar) + 1
+        });
+    }
+    return blocks;
+}
+
+/**
+ * Outline the bar blocks and label each with its bar range
+ * Labels that do not fit inside their block are left out.
+ * @param ctx - Target context
+ * @param blocks - Blocks from computeBarBlocks
+ * @param x - Left edge of the visualization on the target
+ * @param y - Top edge of the visualization on the target
+ * @param scale - Target pixels per canvas pixel
+ * @param fontSize - Label font size in target pixels
+ */
+export function drawBarBlocks(
+    ctx: CanvasRenderingContext2D,
+    blocks: BarBlock[],
+    x: number,
+    y: number,
+    scale: number,
+    fontSize: number
+): void {
+    ctx.save();
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textBaseline = 'top';
+    ctx.lineWidth = Math.max(1, fontSize / 12);
+
+    for (const block of blocks) {
+        const left = x + block.x * scale;
+        const top = y + block.y * scale;
+        const width = block.width * scale;
+        const height = block.height * scale;
+
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+        ctx.strokeRect(left + 0.5, top + 0.5, width - 1, height - 1);
+
+        const label = block.firstBar === block.lastBar ? `Bar ${block.firstBar}` : `Bars ${block.firstBar}–${block.lastBar}`;
+        const padding = fontSize * 0.3;
+        const labelWidth = ctx.measureText(label).width + 2 * padding;
+        const labelHeight = fontSize + 2 * padding;
+        if (labelWidth > width || labelHeight > height) continue;
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(left + 1, top + 1, labelWidth, labelHeight);
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(label, left + 1 + padding, top + 1 + padding);
+    }
+
+    ctx.restore();
+}
+
+/**
+ * Format a colorbar value with about two significant digits
+ */
+function formatColorbarValue(value: number): string {
+    if (value === 0) return '0';
+    if (Math.abs(value) >= 100) return value.toFixed(0);
+    return `${parseFloat(value.toPrecision(2))}`;
+}
+
+/**
+ * Draw a colorbar with value ticks for the colormap modes (mono and onset)
+ * Ticks show the values each color stands for under the current scaling: dB below the
+ * normalization maximum in dB scaling, values of the mono source otherwise.
+ * @param ctx - Target context
+ * @param settings - Analysis settings
+ * @param colorSettings - Colormap, scaling and normalization
+ * @param normalizationMax - Value shown at the top of the colormap
+ * @param x - Left edge
+ * @param y - Top edge
+ * @param width - Available width
+ * @param height - Height of the gradient and tick labels together
+ * @returns False if the mode has no colormap (draw its legend instead)
+ */
+export function drawColorbar(
+    ctx: CanvasRenderingContext2D,
+    settings: AnalysisSettings,
+    colorSettings: ColorSettings,
+    normalizationMax: number,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+): boolean {
+    if (settings.vizMode !== 'mono' && settings.vizMode !== 'onset') return false;
+
+    const barHeight = height * 0.45;
+    const fontSize = height * 0.4;
+    ctx.save();
+    ctx.font = `${fontSize}px sans-serif`;
+
+    const title = settings.vizMode === 'onset' ? 'Onset strength' : FEATURE_TITLES[settings.monoFeature];
+    ctx.fillStyle = '#ffffff';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(title, x, y + barHeight / 2);
+
+    // Leave room for the last tick label to the right of the gradient
+    const barX = x + ctx.measureText(title).width + fontSize;
+    const barWidth = Math.max(fontSize, width - (barX - x) - fontSize * 2.5);
+
+    const colormap = getColormap(colorSettings);
+    for (let i = 0; i < colormap.length; i++) {
+        const [r, g, b] = colormap[i];
+        ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+        ctx.fillRect(barX + (i / colormap.length) * barWidth, y, barWidth / colormap.length + 1, barHeight);
+    }
+
+    ctx.fillStyle = '#ffffff';
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = Math.max(1, fontSize / 12);
+    ctx.textBaseline = 'top';
+    ctx.textAlign = 'center';
+    for (let tick = 0; tick < COLORBAR_TICKS; tick++) {
+        const level = tick / (COLORBAR_TICKS - 1);
+        const tickX = barX + level * barWidth;
+        const label = colorSettings.scaling === 'db' ? `${Math.round(colorSettings.dbFloor * (1 - level))} dB`
+            : colorSettings.scaling === 'gamma' ? formatColorbarValue(normalizationMax * Math.pow(level, 1 / colorSettings.gamma))
+            : formatColorbarValue(normalizationMax * level);
+
+        ctx.beginPath();
+        ctx.moveTo(tickX, y + barHeight);
+        ctx.lineTo(tickX, y + barHeight + fontSize * 0.25);
+        ctx.stroke();
+        // Values above the normalization maximum are clipped to the top color
+        const clipped = tick === COLORBAR_TICKS - 1 && colorSettings.percentile < 100;
+        ctx.fillText(clipped ? `≥ ${label}` : label, tickX, y + barHeight + fontSize * 0.3);
+    }
+
+    ctx.restore();
+    return true;
+}
@@ -0,0 +1,152 @@
+// Beat Grid
+// Outlines of the beat, bar, phrase and section blocks the curve lays out
+
+import type { GridLevel, GridSettings } from './types.js';
+
+// Grid levels from finest to coarsest
+export const GRID_LEVELS: GridLevel[] = ['beat', 'bar', 'phrase', 'section'];
+
+// Bars per phrase and per section
+const BARS_PER_PHRASE = 4;
+const BARS_PER_SECTION = 16;
+
+// Line width of each level relative to the beat lines
+const LEVEL_LINE_WIDTHS: Record<GridLevel, number> = { beat: 1, bar: 1, phrase: 1.5, section: 2 };
+
+// Opacity of the grid lines, so the windows under them stay visible
+const GRID_ALPHA = 0.7;
+
+/**
+ * Create the default grid settings: every level hidden
+ * @returns Grid settings
+ */
+export function createDefaultGridSettings(): GridSettings {
+    return {
+        enabled: { beat: false, bar: false, phrase: false, section: false },
+        colors: { beat: '#808080', bar: '#ffffff', phrase: '#ffd166', section: '#ef476f' }
+    };
+}
+
+/**
+ * Get the number of windows in one block of a grid level
+ * @param level - Grid level
+ * @param samplesPerBeat - Windows per beat
+ * @param beatsPerBar - Beats per bar
+ * @returns Block size in windows
+ */
+export function getGridBlockSize(level: GridLevel, samplesPerBeat: number, beatsPerBar: number): number {
+    const bar = samplesPerBeat * beatsPerBar;
+    if (level === 'beat') return samplesPerBeat;
+    if (level === 'bar') return bar;
+    return level === 'phrase' ? bar * BARS_PER_PHRASE : bar * BARS_PER_SECTION;
+}
+
+/**
+ * Get the first window of the curve tile holding a window
+ * @param window - Window index
+ * @param zOrderOffset - Z-order offset in windows (curve index of window 0)
+ * @param size - Tile size in windows
+ * @returns First window of the tile, negative when the tile starts before the track
+ */
+export function getTileStart(window: number, zOrderOffset: number, size: number): number {
+    return Math.floor((window + zOrderOffset) / size) * size - zOrderOffset;
+}
+
+/**
+ * Get the first window that starts a curve tile
+ * @param zOrderOffset - Z-order offset in windows (curve index of window 0)
+ * @param size - Tile size in windows
+ * @returns Window index below size
+ */
+export function getFirstTileWindow(zOrderOffset: number, size: number): number {
+    return ((-zOrderOffset % size) + size) % size;
+}
+
+/**
+ * Draw the outlines of the enabled grid levels
+ * A line is drawn between neighbouring pixels whose windows fall in different blocks, in the
+ * color of the coarsest enabled level they differ at. Blocks are tiles of the curve (aligned
+ * runs of curve indices), the same blocks loops snap to and the average bar folds onto; the
+ * offset decides which window lands at the start of each tile.
+ * @param ctx - Target context, the size of the canvas times scale
+ * @param curveIndices - Curve index per pixel from getCoordinateLUT
+ * @param width - Canvas width
+ * @param zOrderOffset - Z-order offset in windows
+ * @param totalWindows - Number of analysed windows
+ * @param samplesPerBeat - Windows per beat
+ * @param beatsPerBar - Beats per bar
+ * @param settings - Levels to draw and their colors
+ * @param scale - Target pixels per canvas pixel
+ * @param lineWidth - Width of the beat lines in target pixels
+ */
+export function drawBeatGrid(
+    ctx: CanvasRenderingContext2D,
+    curveIndices: Uint32Array,
+    width: number,
+    zOrderOffset: number,
+    totalWindows: number,
+    samplesPerBeat: number,
+    beatsPerBar: number,
+    settings: GridSettings,
+    scale: number,
+    lineWidth: number
+): void {
+    // Coarsest first, so each edge goes to the first level it separates
+    const levels = GRID_LEVELS.filter(level => settings.enabled[level]).reverse();
+    if (levels.length === 0) return;
+    const sizes = levels.map(level => getGridBlockSize(level, samplesPerBeat, beatsPerBar));
+
+    // Curve index of a pixel holding an analysed window, or -1
+    const getIndex = (p: number): number => {
+        const window = curveIndices[p] - zOrderOffset;
+        return window >= 0 && window < totalWindows ? curveIndices[p] : -1;
+    };
+    const getLevel = (a: number, b: number): number => {
+        for (let i = 0; i < sizes.length; i++) {
+            if (Math.floor(a / sizes[i]) !== Math.floor(b / sizes[i])) return i;
+        }
+        return -1;
+    };
+
+    // Edges as [x, y, vertical] triples per level, in canvas pixels
+    const edges: number[][] = levels.map(() => []);
+    const height = curveIndices.length / width;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const p = y * width + x;
+            const index = getIndex(p);
+            if (index < 0) continue;
+            if (x + 1 < width) {
+                const right = getIndex(p + 1);
+                const level = right >= 0 ? getLevel(index, right) : -1;
+                if (level >= 0) edges[level].push(x + 1, y, 1);
+            }
+            if (y + 1 < height) {
+                const below = getIndex(p + width);
+                const level = below >= 0 ? getLevel(index, below) : -1;
+                if (level >= 0) edges[level].push(x, y + 1, 0);
+            }
+        }
+    }
+
+    ctx.save();
+    ctx.globalAlpha = GRID_ALPHA;
+    // Finest first, so coarser lines cover them where they meet
+    for (let i = levels.length - 1; i >= 0; i--) {
+        const thickness = lineWidth * LEVEL_LINE_WIDTHS[levels[i]];
+        const level = edges[i];
+        ctx.beginPath();
+        for (let e = 0; e < level.length; e += 3) {
+            const x = level[e] * scale;
+            const y = level[e + 1] * scale;
+            if (level[e + 2]) {
+                ctx.rect(x - thickness / 2, y, thickness, scale);
+            } else {
+                ctx.rect(x, y - thickness / 2, scale, thickness);
+            }
+        }
+        ctx.fillStyle = settings.colors[levels[i]];
+        ctx.fill();
+    }
+    ctx.restore();
+}
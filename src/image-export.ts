@@ -0,0 +1,373 @@
+// Image Export
+// High-resolution PNG export with an optional legend and embedded analysis settings
+
+import { describeColorScaling, formatColormapStops, formatHexColor, getColormap } from './colormaps.js';
+import { drawBarBlocks, drawColorbar } from './frame.js';
+import { encodePNG } from './png-encoder.js';
+import { formatBandsCSV } from './spectral-bands.js';
+import { formatTempoMapCSV } from './tempo-map.js';
+import { balanceToColor, hsvToRGB } from './visualizer.js';
+import type {
+    AnalysisSettings, ChannelSource, ColorSettings, CurveType, ExportOptions, FrameContent, WindowFeature
+} from './types.js';
+
+// Value of the PNG Software text chunk
+const SOFTWARE_NAME = 'Audio Structure Visualizer';
+
+const FEATURE_NAMES: Record<WindowFeature, string> = {
+    rms: 'power',
+    centroid: 'centroid',
+    flux: 'flux',
+    flatness: 'flatness',
+    hfc: 'high-frequency content',
+    zcr: 'zero-crossing rate'
+};
+
+// Pitch class names, C first
+export const PITCH_CLASS_NAMES = ['C', 'C♯', 'D', 'D♯', 'E', 'F', 'F♯', 'G', 'G♯', 'A', 'A♯', 'B'];
+
+// Narrowest image that still fits the legend text
+const MIN_LEGEND_WIDTH = 640;
+
+const CURVE_NAMES: Record<CurveType, string> = {
+    zorder: 'Z-Order',
+    hilbert: 'Hilbert',
+    peano: 'Peano',
+    rowmajor: 'Row-Major'
+};
+
+const CHANNEL_NAMES: Record<ChannelSource, string> = {
+    left: 'Left channel',
+    right: 'Right channel',
+    mid: 'Mid (L+R)',
+    side: 'Side (L−R)'
+};
+
+/**
+ * Get the upscale factor that brings the longest side to a target size
+ * Nearest-neighbour sampling keeps every window a crisp block; when the size is not a whole
+ * multiple of the source, neighbouring blocks differ by one pixel.
+ * @param width - Source width
+ * @param height - Source height
+ * @param size - Target size of the longest side (0 for the original size)
+ * @returns Scale factor (at least 1, so sources larger than the target keep their size)
+ */
+export function getExportScale(width: number, height: number, size: number): number {
+    if (size <= 0) return 1;
+    return Math.max(1, size / Math.max(width, height));
+}
+
+/**
+ * Describe the tempo of an analysis in one line
+ * @param settings - Analysis settings
+ * @returns Tempo description, e.g. "128 BPM"
+ */
+function describeTempo(settings: AnalysisSettings): string {
+    const bpms = settings.tempoMap.map(segment => segment.bpm);
+    const min = Math.min(...bpms);
+    const max = Math.max(...bpms);
+    const tempo = min === max
+        ? `${parseFloat(min.toFixed(3))} BPM`
+        : `${parseFloat(min.toFixed(1))}–${parseFloat(max.toFixed(1))} BPM tempo map`;
+    return settings.driftCorrection ? `${tempo} (drift-corrected)` : tempo;
+}
+
+/**
+ * Build the PNG text metadata that traces an image back to its settings
+ * @param trackName - Audio file name
+ * @param settings - Analysis settings
+ * @param colorSettings - Colormap, scaling and normalization the image was drawn with
+ * @param curveType - Layout the image was drawn with
+ * @param beatsPerBar - Beats per bar of the layout
+ * @param offsetSeconds - Offset in seconds
+ * @returns Keyword/value pairs in display order
+ */
+export function buildExportMetadata(
+    trackName: string,
+    settings: AnalysisSettings,
+    colorSettings: ColorSettings,
+    curveType: CurveType,
+    beatsPerBar: number,
+    offsetSeconds: number
+): Record<string, string> {
+    const metadata: Record<string, string> = {
+        'Title': trackName,
+        'Software': SOFTWARE_NAME
+    };
+
+    if (settings.tempoMap.length === 1) {
+        metadata['BPM'] = `${settings.tempoMap[0].bpm}`;
+    } else {
+        metadata['Tempo Map'] = formatTempoMapCSV(settings.tempoMap);
+    }
+    if (settings.driftCorrection) {
+        metadata['Drift Correction'] = 'on';
+    }
+
+    metadata['Offset Seconds'] = `${offsetSeconds}`;
+    metadata['Samples Per Beat'] = `${settings.samplesPerBeat}`;
+    metadata['Window Size'] = `${settings.windowSize}`;
+    metadata['Mode'] = settings.vizMode;
+    if (settings.vizMode !== 'balance') {
+        metadata['Channel'] = settings.channelSource;
+    }
+    if (settings.vizMode === 'mono') {
+        metadata['Mono Source'] = settings.monoFeature;
+    }
+    if (settings.vizMode === 'onset') {
+        metadata['Onset Method'] = settings.onsetMethod;
+    }
+    if (settings.vizMode === 'rgb') {
+        metadata['RGB Sources'] = settings.rgbSources.join(',');
+        if (settings.rgbSources.includes('band')) {
+            metadata['Low/Mid Cutoff Hz'] = `${settings.lowMidCutoff}`;
+            metadata['Mid/High Cutoff Hz'] = `${settings.midHighCutoff}`;
+        }
+    }
+    if (settings.vizMode === 'bands') {
+        metadata['Window Function'] = settings.windowFunction;
+        metadata['Bands'] = formatBandsCSV(settings.spectralBands);
+    }
+    if (settings.vizMode === 'mono' || settings.vizMode === 'onset') {
+        metadata['Colormap'] = colorSettings.colormap === 'custom'
+            ? formatColormapStops(colorSettings.customColormap)
+            : colorSettings.colormap;
+    }
+    metadata['Scaling'] = describeColorScaling(colorSettings);
+    metadata['Layout'] = curveType;
+    metadata['Beats Per Bar'] = `${beatsPerBar}`;
+    metadata['Subdivision'] = `${settings.subdivisionRadix}`;
+
+    return metadata;
+}
+
+/**
+ * Summarize the settings in one line for the legend
+ * @param settings - Analysis settings
+ * @param curveType - Layout the image was drawn with
+ * @param beatsPerBar - Beats per bar of the layout
+ * @param offsetSeconds - Offset in seconds
+ * @returns Summary line
+ */
+export function formatExportSummary(
+    settings: AnalysisSettings,
+    curveType: CurveType,
+    beatsPerBar: number,
+    offsetSeconds: number
+): string {
+    return [
+        describeTempo(settings),
+        settings.vizMode === 'balance' ? 'Stereo balance' : CHANNEL_NAMES[settings.channelSource],
+        `Offset ${offsetSeconds.toFixed(3)} s`,
+        `${settings.samplesPerBeat} samples/beat`,
+        `Window ${settings.windowSize}`,
+        `${CURVE_NAMES[curveType]} layout, ${beatsPerBar} beats/bar`
+    ].join('  •  ');
+}
+
+/**
+ * Draw the color legend for the visualization mode
+ */
+export function drawColorLegend(
+    ctx: CanvasRenderingContext2D,
+    settings: AnalysisSettings,
+    colorSettings: ColorSettings,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+): void {
+    const fontSize = height * 0.8;
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textBaseline = 'middle';
+
+    if (settings.vizMode === 'mono' || settings.vizMode === 'onset') {
+        // Colormap gradient from low to high values of the mono source or onset strength
+        const lowLabel = settings.vizMode === 'onset' ? 'Weak onset' : `Low ${FEATURE_NAMES[settings.monoFeature]}`;
+        const highLabel = settings.vizMode === 'onset' ? 'Strong onset' : `High ${FEATURE_NAMES[settings.monoFeature]}`;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(lowLabel, x, y + height / 2);
+        const barX = x + ctx.measureText(lowLabel).width + fontSize * 0.5;
+        const barWidth = Math.max(fontSize, width - (barX - x) - ctx.measureText(highLabel).width - fontSize * 0.5);
+        const colormap = getColormap(colorSettings);
+        for (let i = 0; i < colormap.length; i++) {
+            const [r, g, b] = colormap[i];
+            ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+            ctx.fillRect(barX + (i / colormap.length) * barWidth, y, barWidth / colormap.length + 1, height);
+        }
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(highLabel, barX + barWidth + fontSize * 0.5, y + height / 2);
+        return;
+    }
+
+    if (settings.vizMode === 'balance') {
+        // Pan gradient at full level, from hard left to hard right
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText('Left', x, y + height / 2);
+        const barX = x + ctx.measureText('Left').width + fontSize * 0.5;
+        const barWidth = Math.max(fontSize, width - (barX - x) - ctx.measureText('Right  (brightness = power)').width - fontSize * 0.5);
+        const steps = 256;
+        for (let i = 0; i < steps; i++) {
+            const [r, g, b] = balanceToColor((i / (steps - 1)) * 2 - 1, 1);
+            ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+            ctx.fillRect(barX + (i / steps) * barWidth, y, barWidth / steps + 1, height);
+        }
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText('Right  (brightness = power)', barX + barWidth + fontSize * 0.5, y + height / 2);
+        return;
+    }
+
+    if (settings.vizMode === 'chroma') {
+        // One swatch per pitch class at full strength and level
+        let cursor = x;
+        PITCH_CLASS_NAMES.forEach((name, pc) => {
+            const [r, g, b] = hsvToRGB(pc * 30, 1, 1);
+            ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+            ctx.fillRect(cursor, y, height, height);
+            ctx.fillStyle = '#ffffff';
+            ctx.fillText(name, cursor + height * 1.2, y + height / 2);
+            cursor += height * 1.2 + ctx.measureText(name).width + fontSize * 0.8;
+        });
+        ctx.fillText('(saturation = chroma strength, brightness = power)', cursor, y + height / 2);
+        return;
+    }
+
+    if (settings.vizMode === 'bands') {
+        // One color segment per band, lowest first, between the outer band edges
+        const bands = settings.spectralBands;
+        const lowLabel = `${Math.min(...bands.map(band => band.low))} Hz`;
+        const highLabel = `${Math.max(...bands.map(band => band.high))} Hz  (${bands.length} bands)`;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(lowLabel, x, y + height / 2);
+        const barX = x + ctx.measureText(lowLabel).width + fontSize * 0.5;
+        const barWidth = Math.max(fontSize, width - (barX - x) - ctx.measureText(highLabel).width - fontSize * 0.5);
+        bands.forEach((band, i) => {
+            ctx.fillStyle = formatHexColor(band.color);
+            ctx.fillRect(barX + (i / bands.length) * barWidth, y, barWidth / bands.length + 1, height);
+        });
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(highLabel, barX + barWidth + fontSize * 0.5, y + height / 2);
+        return;
+    }
+
+    // One swatch per color channel: its frequency band or the feature it shows
+    const bandLabels = [
+        `Low < ${settings.lowMidCutoff} Hz`,
+        `Mid ${settings.lowMidCutoff}–${settings.midHighCutoff} Hz`,
+        `High > ${settings.midHighCutoff} Hz`
+    ];
+    const channelNames = ['Red', 'Green', 'Blue'];
+    const bands: [string, string][] = settings.rgbSources.map((source, i) => [
+        ['#ff4444', '#44ff44', '#4444ff'][i],
+        source === 'band' ? bandLabels[i] : `${channelNames[i]}: ${FEATURE_NAMES[source]}`
+    ]);
+    let cursor = x;
+    for (const [color, label] of bands) {
+        ctx.fillStyle = color;
+        ctx.fillRect(cursor, y, height, height);
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(label, cursor + height * 1.4, y + height / 2);
+        cursor += height * 1.4 + ctx.measureText(label).width + fontSize * 1.5;
+    }
+}
+
+/**
+ * Render the visualization upscaled with nearest-neighbour sampling, optionally framed and with a legend footer
+ * The frame adds a margin, bar-range labels over the image and a colorbar below it.
+ * @param source - Visualization canvas (one pixel per window)
+ * @param options - Export size and legend toggle
+ * @param legend - Track name, summary line, and analysis and color settings for the legend
+ * @param frame - Bar blocks and colorbar maximum, or null for no frame
+ * @returns Export canvas
+ */
+export function renderExportCanvas(
+    source: HTMLCanvasElement,
+    options: ExportOptions,
+    legend: { title: string; summary: string; settings: AnalysisSettings; colorSettings: ColorSettings },
+    frame: FrameContent | null
+): HTMLCanvasElement {
+    const scale = getExportScale(source.width, source.height, options.size);
+    const imageWidth = Math.round(source.width * scale);
+    const imageHeight = Math.round(source.height * scale);
+
+    const fontSize = Math.max(12, Math.round((options.legend ? Math.max(imageWidth, MIN_LEGEND_WIDTH) : imageWidth) / 80));
+    const margin = frame ? fontSize : 0;
+    const colorbarHeight = frame ? Math.round(fontSize * 2.2) : 0;
+    const width = Math.max(imageWidth + 2 * margin, options.legend ? MIN_LEGEND_WIDTH : 0);
+    // Image with its frame: margin, image, margin and colorbar
+    const framedHeight = frame ? imageHeight + 3 * margin + colorbarHeight : imageHeight;
+    // Padding, title, summary and color legend rows
+    const footerHeight = options.legend ? Math.round(fontSize * 6.2) : 0;
+
+    const exportCanvas = document.createElement('canvas');
+    exportCanvas.width = width;
+    exportCanvas.height = framedHeight + footerHeight;
+    const ctx = exportCanvas.getContext('2d')!;
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, exportCanvas.width, exportCanvas.height);
+
+    // Nearest-neighbour upscale
+    const imageX = Math.floor((width - imageWidth) / 2);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(source, imageX, margin, imageWidth, imageHeight);
+
+    if (frame) {
+        drawBarBlocks(ctx, frame.blocks, imageX, margin, scale, Math.round(fontSize * 0.8));
+        const colorbarY = margin + imageHeight + margin;
+        const drawn = drawColorbar(
+            ctx, legend.settings, legend.colorSettings, frame.normalizationMax,
+            margin, colorbarY, width - 2 * margin, colorbarHeight
+        );
+        if (!drawn) {
+            drawColorLegend(ctx, legend.settings, legend.colorSettings, margin, colorbarY, width - 2 * margin, fontSize);
+        }
+    }
+
+    if (options.legend) {
+        const padding = fontSize;
+        let y = framedHeight + padding;
+
+        ctx.textBaseline = 'top';
+        ctx.fillStyle = '#ffffff';
+        ctx.font = `bold ${Math.round(fontSize * 1.2)}px sans-serif`;
+        ctx.fillText(legend.title, padding, y, width - 2 * padding);
+        y += fontSize * 1.6;
+
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+        ctx.font = `${fontSize}px sans-serif`;
+        ctx.fillText(legend.summary, padding, y, width - 2 * padding);
+        y += fontSize * 1.6;
+
+        drawColorLegend(ctx, legend.settings, legend.colorSettings, padding, y, width - 2 * padding, fontSize);
+    }
+
+    return exportCanvas;
+}
+
+/**
+ * Encode a canvas as PNG with text metadata
+ * @param canvas - Canvas to encode
+ * @param metadata - tEXt keyword/value pairs
+ * @returns PNG blob
+ */
+export async function canvasToPNG(canvas: HTMLCanvasElement, metadata: Record<string, string>): Promise<Blob> {
+    const ctx = canvas.getContext('2d')!;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const png = await encodePNG(canvas.width, canvas.height, data, metadata);
+    return new Blob([png as BlobPart], { type: 'image/png' });
+}
+
+/**
+ * Offer a blob as a file download
+ * @param blob - File contents
+ * @param filename - Suggested file name
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
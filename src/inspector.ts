@@ -0,0 +1,116 @@
+// Hover Inspector
+// Musical position and per-window values under the pointer, and the same-phase highlight
+
+import { FEATURE_TITLES } from './frame.js';
+import { PITCH_CLASS_NAMES } from './image-export.js';
+import { getNormalizationMax } from './visualizer.js';
+import type { AppState, WindowValue } from './types.js';
+
+// Opacity of the same-phase highlight
+const HIGHLIGHT_ALPHA = 0.45;
+
+// Names of the RGB channels and the band each takes by default
+const RGB_CHANNELS = [['Red', 'low'], ['Green', 'mid'], ['Blue', 'high']] as const;
+
+type InspectorState = Pick<AppState,
+    'cachedPowers' | 'cachedRGBPowers' | 'cachedBalance' | 'cachedBandPowers' | 'cachedChroma' | 'cachedVizMode' |
+    'maxPowerMono' | 'maxPowerRGB' | 'maxPowerBands' | 'colorSettings' | 'cachedSettings'>;
+
+/**
+ * Format the musical position of a window as bar.beat.subdivision, all counted from 1
+ * Bars count along the curve from curve index 0, so the position names the tile the window
+ * sits in on the canvas; the offset sets where the first downbeat falls.
+ * @param window - Window index
+ * @param zOrderOffset - Z-order offset in windows (curve index of window 0)
+ * @param samplesPerBeat - Windows per beat
+ * @param beatsPerBar - Beats per bar
+ * @returns Position such as "17.3.5"
+ */
+export function formatMusicalPosition(window: number, zOrderOffset: number, samplesPerBeat: number, beatsPerBar: number): string {
+    const index = window + zOrderOffset;
+    const beat = Math.floor(index / samplesPerBeat);
+    const bar = Math.floor(beat / beatsPerBar);
+    return `${bar + 1}.${beat - bar * beatsPerBar + 1}.${index - beat * samplesPerBeat + 1}`;
+}
+
+/**
+ * Get the values of one window in the shown mode, raw and over the normalization maximum the colors use
+ * @param state - Cached analysis and color settings
+ * @param window - Window index
+ * @returns Values, in the order of the mode's channels or bands
+ */
+export function getWindowValues(state: InspectorState, window: number): WindowValue[] {
+    const { cachedPowers, cachedRGBPowers, cachedBalance, cachedBandPowers, cachedChroma, cachedVizMode, cachedSettings } = state;
+    const { percentile } = state.colorSettings;
+    const value = (label: string, values: Float32Array, max: number): WindowValue => {
+        const normalizationMax = getNormalizationMax(values, max, percentile);
+        return { label, raw: values[window], normalized: normalizationMax > 0 ? values[window] / normalizationMax : 0 };
+    };
+
+    if (cachedVizMode === 'rgb' && cachedRGBPowers) {
+        return RGB_CHANNELS.map(([name, band], i) => {
+            const source = cachedSettings?.rgbSources[i] ?? 'band';
+            const label = `${name} (${source === 'band' ? `${band} band` : FEATURE_TITLES[source]})`;
+            return value(label, cachedRGBPowers[band], state.maxPowerRGB[band]);
+        });
+    }
+    if (cachedVizMode === 'bands' && cachedBandPowers) {
+        return cachedBandPowers.map((band, i) => {
+            const spectralBand = cachedSettings?.spectralBands[i];
+            const label = spectralBand ? `${spectralBand.low}–${spectralBand.high} Hz` : `Band ${i + 1}`;
+            return value(label, band, state.maxPowerBands[i]);
+        });
+    }
+    if (!cachedPowers) return [];
+
+    if (cachedVizMode === 'onset') {
+        return [value('Onset strength', cachedPowers, state.maxPowerMono)];
+    }
+    const power = value(FEATURE_TITLES[cachedSettings?.monoFeature ?? 'rms'], cachedPowers, state.maxPowerMono);
+    if (cachedVizMode === 'balance' && cachedBalance) {
+        return [power, { label: 'Balance (−1 left, 1 right)', raw: cachedBalance[window], normalized: null }];
+    }
+    if (cachedVizMode === 'chroma' && cachedChroma) {
+        let dominant = 0;
+        for (let pc = 1; pc < 12; pc++) {
+            if (cachedChroma[pc][window] > cachedChroma[dominant][window]) dominant = pc;
+        }
+        return [power, { label: `Chroma ${PITCH_CLASS_NAMES[dominant]}`, raw: cachedChroma[dominant][window], normalized: null }];
+    }
+    return [power];
+}
+
+/**
+ * Highlight every window at the same phase within its beat tile of the curve
+ * @param ctx - Target context, the size of the canvas times scale
+ * @param curveIndices - Curve index per pixel from getCoordinateLUT
+ * @param width - Canvas width
+ * @param zOrderOffset - Z-order offset in windows
+ * @param totalWindows - Number of analysed windows
+ * @param samplesPerBeat - Windows per beat
+ * @param phase - Curve index within the beat to highlight (0 = on the beat)
+ * @param scale - Target pixels per canvas pixel
+ */
+export function drawPhaseHighlight(
+    ctx: CanvasRenderingContext2D,
+    curveIndices: Uint32Array,
+    width: number,
+    zOrderOffset: number,
+    totalWindows: number,
+    samplesPerBeat: number,
+    phase: number,
+    scale: number
+): void {
+    ctx.save();
+    ctx.beginPath();
+    for (let p = 0; p < curveIndices.length; p++) {
+        const window = curveIndices[p] - zOrderOffset;
+        if (window < 0 || window >= totalWindows || curveIndices[p] % samplesPerBeat !== phase) continue;
+        const x = p % width;
+        ctx.rect(x * scale, ((p - x) / width) * scale, scale, scale);
+    }
+    ctx.globalAlpha = HIGHLIGHT_ALPHA;
+    ctx.fillStyle = '#ffffff';
+    ctx.fill();
+    ctx.restore();
+}
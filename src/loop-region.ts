@@ -0,0 +1,66 @@
+// Loop Regions
+// Snapping a dragged canvas selection to a curve block, and drawing the selected windows
+
+import type { WindowRange } from './types.js';
+
+// Opacity of the loop region fill
+const REGION_ALPHA = 0.3;
+
+/**
+ * Snap a drag between two curve positions to the smallest block that holds both
+ * Blocks are aligned runs of samplesPerBeat × 2^k curve indices, so on a Z-order layout in a
+ * binary meter they are its squares and half-squares, and every block is one contiguous span of time. The region
+ * is clipped to the analysed windows.
+ * @param startIndex - Curve index where the drag started
+ * @param endIndex - Curve index under the pointer
+ * @param samplesPerBeat - Windows per beat (the smallest block is one beat)
+ * @param zOrderOffset - Z-order offset in windows
+ * @param totalWindows - Number of analysed windows
+ * @returns Selected windows, or null if the block holds none
+ */
+export function snapLoopRegion(
+    startIndex: number,
+    endIndex: number,
+    samplesPerBeat: number,
+    zOrderOffset: number,
+    totalWindows: number
+): WindowRange | null {
+    let size = samplesPerBeat;
+    while (Math.floor(startIndex / size) !== Math.floor(endIndex / size)) size *= 2;
+
+    const blockStart = Math.floor(startIndex / size) * size;
+    const firstWindow = Math.max(0, blockStart - zOrderOffset);
+    const endWindow = Math.min(totalWindows, blockStart + size - zOrderOffset);
+    return endWindow > firstWindow ? { firstWindow, endWindow } : null;
+}
+
+/**
+ * Shade the windows of a loop region
+ * @param ctx - Target context, the size of the canvas times scale
+ * @param curveIndices - Curve index per pixel from getCoordinateLUT
+ * @param width - Canvas width
+ * @param zOrderOffset - Z-order offset in windows
+ * @param region - Selected windows
+ * @param scale - Target pixels per canvas pixel
+ */
+export function drawLoopRegion(
+    ctx: CanvasRenderingContext2D,
+    curveIndices: Uint32Array,
+    width: number,
+    zOrderOffset: number,
+    region: WindowRange,
+    scale: number
+): void {
+    ctx.save();
+    ctx.beginPath();
+    for (let p = 0; p < curveIndices.length; p++) {
+        const window = curveIndices[p] - zOrderOffset;
+        if (window < region.firstWindow || window >= region.endWindow) continue;
+        const x = p % width;
+        ctx.rect(x * scale, ((p - x) / width) * scale, scale, scale);
+    }
+    ctx.globalAlpha = REGION_ALPHA;
+    ctx.fillStyle = '#64b5ff';
+    ctx.fill();
+    ctx.restore();
+}
@@ -0,0 +1,70 @@
+// Onset Detection
+// Adaptive thresholding of a novelty function into onset strength, and peak picking of onsets
+
+// Neighbourhood of the adaptive threshold on each side, in beats
+const THRESHOLD_SPAN_BEATS = 1;
+
+// Novelty must exceed the local mean by this factor to count as an onset
+const THRESHOLD_RATIO = 1.5;
+
+// Closest two onsets can be, in beats (a 32nd note)
+const MIN_ONSET_GAP_BEATS = 1 / 8;
+
+// Weakest onset reported, relative to the strongest
+const MIN_ONSET_LEVEL = 0.1;
+
+/**
+ * Turn a novelty function (spectral flux or high-frequency content) into onset strength
+ * Each window keeps only what rises above THRESHOLD_RATIO times the mean of its neighbourhood,
+ * so sustained energy cancels out and transients stand out at any loudness.
+ * @param novelty - Novelty per window
+ * @param samplesPerBeat - Windows per beat
+ * @returns Onset strength per window (0 where below the threshold)
+ */
+export function computeOnsetStrength(novelty: Float32Array, samplesPerBeat: number): Float32Array {
+    const span = Math.max(1, Math.round(THRESHOLD_SPAN_BEATS * samplesPerBeat));
+
+    // Prefix sums for the moving mean
+    const prefix = new Float64Array(novelty.length + 1);
+    for (let i = 0; i < novelty.length; i++) {
+        prefix[i + 1] = prefix[i] + novelty[i];
+    }
+
+    const strength = new Float32Array(novelty.length);
+    for (let i = 0; i < novelty.length; i++) {
+        const from = Math.max(0, i - span);
+        const to = Math.min(novelty.length, i + span + 1);
+        const mean = (prefix[to] - prefix[from]) / (to - from);
+        strength[i] = Math.max(0, novelty[i] - THRESHOLD_RATIO * mean);
+    }
+    return strength;
+}
+
+/**
+ * Pick onsets from onset strength: local maxima at least MIN_ONSET_GAP_BEATS apart
+ * @param strength - Onset strength per window
+ * @param samplesPerBeat - Windows per beat
+ * @returns Window index of each onset, ascending
+ */
+export function detectOnsets(strength: Float32Array, samplesPerBeat: number): Uint32Array {
+    const gap = Math.max(1, Math.round(MIN_ONSET_GAP_BEATS * samplesPerBeat));
+
+    let max = 0;
+    for (let i = 0; i < strength.length; i++) {
+        if (strength[i] > max) max = strength[i];
+    }
+    const floor = max * MIN_ONSET_LEVEL;
+
+    const onsets: number[] = [];
+    for (let i = 0; i < strength.length; i++) {
+        if (strength[i] <= floor) continue;
+
+        // Strictly greater than earlier neighbours, so a flat peak yields one onset
+        let isPeak = true;
+        for (let j = Math.max(0, i - gap); j < Math.min(strength.length, i + gap + 1) && isPeak; j++) {
+            if (j < i ? strength[j] >= strength[i] : strength[j] > strength[i]) isPeak = false;
+        }
+        if (isPeak) onsets.push(i);
+    }
+    return Uint32Array.from(onsets);
+}
@@ -1,7 +1,8 @@
 // Audio Playback Controller
 // Manages audio playback state and visual marker tracking
 
-import { getZOrderCoordinates, interleave } from './z-order.js';
+import { getCanvasCoordinates } from './curves.js';
+import { timeToBeat, beatToTime } from './tempo-map.js';
 import type {
     PlaybackState,
     Coordinates,
@@ -19,7 +20,8 @@ export const playbackState: PlaybackState = {
     playbackStartTime: 0,
     playbackStartOffset: 0,
     animationFrameId: null,
-    currentPlaybackTime: 0
+    currentPlaybackTime: 0,
+    loop: null
 };
 
 /**
@@ -29,28 +31,18 @@ export const playbackState: PlaybackState = {
  * @returns Canvas position or null if out of bounds
  */
 export function getCanvasPositionForTime(time: number, params: PositionParams): Coordinates | null {
-    const { bpm, sampleRate, cachedSamplesPerBeat, cachedCanvasWidth, cachedCanvasHeight, zOrderOffset } = params;
+    const { tempoMap, cachedSamplesPerBeat, cachedCanvasWidth, cachedCanvasHeight, zOrderOffset, curve } = params;
 
     if (!cachedSamplesPerBeat || !cachedCanvasWidth) return null;
 
-    // Calculate window interval
-    const beatsPerSecond = bpm / 60;
-    const windowsPerSecond = beatsPerSecond * cachedSamplesPerBeat;
-    const windowIntervalSeconds = 1 / windowsPerSecond;
-
-    // Convert time to window index
-    const windowIndex = Math.floor(time / windowIntervalSeconds);
+    // Convert time to window index (windows are fixed fractions of a beat)
+    const windowIndex = Math.floor(timeToBeat(time, tempoMap) * cachedSamplesPerBeat);
 
     // Apply Z-order offset
     const adjustedIndex = windowIndex + zOrderOffset;
 
-    // Get Z-order coordinates
-    const { x, y } = getZOrderCoordinates(adjustedIndex, cachedCanvasWidth);
-
-    // Check bounds
-    if (x >= cachedCanvasWidth || y >= cachedCanvasHeight) return null;
-
-    return { x, y };
+    // Get curve coordinates (null when outside the canvas)
+    return getCanvasCoordinates(curve, adjustedIndex, cachedCanvasWidth, cachedCanvasHeight);
 }
 
 /**
@@ -61,23 +53,18 @@ export function getCanvasPositionForTime(time: number, params: PositionParams):
  * @returns Time in seconds or null if invalid
  */
 export function getTimeForCanvasClick(canvasX: number, canvasY: number, params: TimeParams): number | null {
-    const { bpm, sampleRate, cachedSamplesPerBeat, zOrderOffset, audioDuration } = params;
+    const { tempoMap, cachedSamplesPerBeat, zOrderOffset, curve, audioDuration } = params;
 
     if (!cachedSamplesPerBeat) return null;
 
-    // Calculate window interval
-    const beatsPerSecond = bpm / 60;
-    const windowsPerSecond = beatsPerSecond * cachedSamplesPerBeat;
-    const windowIntervalSeconds = 1 / windowsPerSecond;
-
-    // Convert canvas coordinates to Z-order index
-    const zOrderIndex = interleave(Math.floor(canvasX), Math.floor(canvasY));
+    // Convert canvas coordinates to curve index
+    const curveIndex = curve.coordinatesToIndex(Math.floor(canvasX), Math.floor(canvasY));
 
     // Remove Z-order offset
-    const windowIndex = zOrderIndex - zOrderOffset;
+    const windowIndex = curveIndex - zOrderOffset;
 
-    // Convert window index to time
-    const time = windowIndex * windowIntervalSeconds;
+    // Convert window index to time through the tempo map
+    const time = beatToTime(windowIndex / cachedSamplesPerBeat, tempoMap);
 
     // Clamp to valid range
     if (time < 0 || time > audioDuration) return null;
@@ -119,12 +106,22 @@ export async function startPlayback(fromTime: number, params: PlaybackParams): P
         }
     };
 
-    // Start playback from specified time
-    const duration = audioBuffer.duration - fromTime;
-    playbackState.audioSource.start(0, fromTime, duration);
+    // Start playback from specified time; a loop keeps going until stopped
+    let startTime = fromTime;
+    const { loop } = playbackState;
+    if (loop) {
+        // Seeking outside the loop starts it from the top
+        if (startTime < loop.start || startTime >= loop.end) startTime = loop.start;
+        playbackState.audioSource.loop = true;
+        playbackState.audioSource.loopStart = loop.start;
+        playbackState.audioSource.loopEnd = loop.end;
+        playbackState.audioSource.start(0, startTime);
+    } else {
+        playbackState.audioSource.start(0, startTime, audioBuffer.duration - startTime);
+    }
 
     playbackState.playbackStartTime = audioContext.currentTime;
-    playbackState.playbackStartOffset = fromTime;
+    playbackState.playbackStartOffset = startTime;
     playbackState.isPlaying = true;
 
     playPauseButton.textContent = '⏸';
@@ -143,8 +140,7 @@ export function pausePlayback(params: PauseParams): void {
     if (!playbackState.isPlaying) return;
 
     // Calculate current position
-    playbackState.currentPlaybackTime = playbackState.playbackStartOffset +
-        (audioContext.currentTime - playbackState.playbackStartTime);
+    playbackState.currentPlaybackTime = getPlaybackTime(audioContext);
 
     // Stop audio
     stopPlayback();
@@ -153,6 +149,18 @@ export function pausePlayback(params: PauseParams): void {
     playPauseButton.textContent = '▶';
 }
 
+/**
+ * Get the position of the running playback, wrapped into the loop when looping
+ * @param audioContext - Audio context playing the track
+ * @returns Time in seconds
+ */
+export function getPlaybackTime(audioContext: AudioContext): number {
+    const time = playbackState.playbackStartOffset + (audioContext.currentTime - playbackState.playbackStartTime);
+    const { loop } = playbackState;
+    if (!loop || time < loop.end) return time;
+    return loop.start + ((time - loop.start) % (loop.end - loop.start));
+}
+
 /**
  * Stop playback (internal - cleans up resources)
  */
@@ -182,15 +190,14 @@ export function stopPlayback(): void {
  */
 export function updateMarker(params: MarkerParams): number {
     const { audioBuffer, audioContext, canvas, markerOverlay, cachedCanvasWidth, cachedCanvasHeight,
-            seekSlider, onGetPosition, onPausePlayback } = params;
+            seekSlider, overlayLayers, onsetPositions, onGetPosition, onPausePlayback } = params;
 
     if (!markerOverlay || !canvas) return 0;
 
     // Calculate current time
     let time: number;
     if (playbackState.isPlaying) {
-        time = playbackState.playbackStartOffset +
-            (audioContext.currentTime - playbackState.playbackStartTime);
+        time = getPlaybackTime(audioContext);
 
         // Check if playback finished
         if (time >= audioBuffer.duration) {
@@ -215,10 +222,31 @@ export function updateMarker(params: MarkerParams): number {
 
     markerCtx.clearRect(0, 0, markerOverlay.width, markerOverlay.height);
 
+    const scaleX = markerOverlay.width / cachedCanvasWidth;
+    const scaleY = markerOverlay.height / cachedCanvasHeight;
+
+    // Beat grid, loop region and same-phase highlight, drawn ahead of time at the overlay's size
+    for (const layer of overlayLayers) {
+        markerCtx.drawImage(layer, 0, 0);
+    }
+
+    // Detected onsets as small rings under the playback marker
+    if (onsetPositions.length > 0) {
+        markerCtx.beginPath();
+        for (const onset of onsetPositions) {
+            const x = (onset.x + 0.5) * scaleX;
+            const y = (onset.y + 0.5) * scaleY;
+            const radius = Math.max(scaleX, scaleY) * 1.5;
+            markerCtx.moveTo(x + radius, y);
+            markerCtx.arc(x, y, radius, 0, 2 * Math.PI);
+        }
+        markerCtx.strokeStyle = 'rgba(255, 80, 80, 0.9)';
+        markerCtx.lineWidth = 1;
+        markerCtx.stroke();
+    }
+
     if (position) {
         // Draw circular marker
-        const scaleX = markerOverlay.width / cachedCanvasWidth;
-        const scaleY = markerOverlay.height / cachedCanvasHeight;
         const centerX = (position.x + 0.5) * scaleX;
         const centerY = (position.y + 0.5) * scaleY;
         const radius = Math.max(scaleX, scaleY) * 3;
@@ -0,0 +1,115 @@
+// PNG Encoding
+// Minimal RGBA PNG writer with tEXt metadata, usable in browsers and Node
+
+// PNG file signature
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// CRC-32 lookup table (polynomial 0xEDB88320)
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * Compute the CRC-32 of a byte sequence
+ * @param bytes - Input bytes
+ * @returns CRC-32 value
+ */
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a PNG chunk: length, type, data and CRC over type and data
+ * @param type - 4-character chunk type
+ * @param data - Chunk data
+ * @returns Encoded chunk
+ */
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+}
+
+/**
+ * Build a tEXt chunk; PNG text is Latin-1, so other characters are replaced
+ * @param keyword - Keyword (1-79 characters)
+ * @param text - Text value
+ * @returns Encoded chunk
+ */
+function createTextChunk(keyword: string, text: string): Uint8Array {
+    const toLatin1 = (value: string) => Array.from(value, ch => (ch.charCodeAt(0) < 256 ? ch.charCodeAt(0) : 0x3f));
+    const data = new Uint8Array([...toLatin1(keyword.slice(0, 79)), 0, ...toLatin1(text)]);
+    return createChunk('tEXt', data);
+}
+
+/**
+ * Compress data with zlib (deflate) using the Compression Streams API
+ * @param data - Raw bytes
+ * @returns zlib stream
+ */
+async function deflate(data: BlobPart): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Encode RGBA pixels as a PNG file
+ * @param width - Image width
+ * @param height - Image height
+ * @param rgba - Pixel data, 4 bytes per pixel in row-major order (ImageData layout)
+ * @param text - Optional tEXt metadata entries
+ * @returns PNG file contents
+ */
+export async function encodePNG(
+    width: number,
+    height: number,
+    rgba: Uint8Array | Uint8ClampedArray,
+    text: Record<string, string> = {}
+): Promise<Uint8Array> {
+    // IHDR: 8-bit RGBA, no interlacing
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, height);
+    header[8] = 8; // Bit depth
+    header[9] = 6; // Color type: truecolor with alpha
+
+    // Scanlines each start with a filter type byte (0 = none)
+    const rowLength = width * 4;
+    const raw = new Uint8Array((rowLength + 1) * height);
+    for (let y = 0; y < height; y++) {
+        raw.set(rgba.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+    }
+
+    const chunks = [
+        Uint8Array.from(PNG_SIGNATURE),
+        createChunk('IHDR', header),
+        ...Object.entries(text).map(([keyword, value]) => createTextChunk(keyword, value)),
+        createChunk('IDAT', await deflate(raw)),
+        createChunk('IEND', new Uint8Array(0))
+    ];
+
+    const png = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        png.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return png;
+}
@@ -0,0 +1,64 @@
+// Repetition Search
+// Ranking the blocks of a track by how closely they repeat a template block
+
+import type { BlockMatch } from './types.js';
+
+/**
+ * Subtract the mean beat from every beat feature
+ * Beat features are all non-negative, so any two beats score well on raw cosine similarity;
+ * centring leaves what sets each beat apart from the track as a whole.
+ * @param features - Feature vector per beat
+ * @returns Centred feature vector per beat
+ */
+function centreFeatures(features: Float32Array[]): Float32Array[] {
+    if (features.length === 0) return [];
+    const mean = new Float32Array(features[0].length);
+    for (const vector of features) {
+        for (let k = 0; k < mean.length; k++) mean[k] += vector[k] / features.length;
+    }
+    return features.map(vector => vector.map((value, k) => value - mean[k]));
+}
+
+/**
+ * Compare a template block against every other block of the same size
+ * Blocks are runs of blockBeats beats in step with the template, so when the template is a
+ * curve tile every candidate is one too. Each block is
+ * the concatenation of its centred beat features, and blocks are compared by cosine similarity,
+ * so both what is played and where it falls within the block count.
+ * @param features - Feature vector per beat from computeBeatFeatures
+ * @param templateBeat - First beat of the template block
+ * @param blockBeats - Beats per block
+ * @param threshold - Lowest similarity to report (-1 to 1)
+ * @returns Matching blocks other than the template, most similar first
+ */
+export function findSimilarBlocks(
+    features: Float32Array[],
+    templateBeat: number,
+    blockBeats: number,
+    threshold: number
+): BlockMatch[] {
+    if (templateBeat < 0 || templateBeat + blockBeats > features.length) return [];
+    const centred = centreFeatures(features);
+
+    const dot = (a: number, b: number): number => {
+        let sum = 0;
+        for (let beat = 0; beat < blockBeats; beat++) {
+            const u = centred[a + beat], v = centred[b + beat];
+            for (let k = 0; k < u.length; k++) sum += u[k] * v[k];
+        }
+        return sum;
+    };
+
+    const templateNorm = Math.sqrt(dot(templateBeat, templateBeat));
+    if (templateNorm === 0) return [];
+
+    const matches: BlockMatch[] = [];
+    for (let start = templateBeat % blockBeats; start + blockBeats <= features.length; start += blockBeats) {
+        if (start === templateBeat) continue;
+        const norm = Math.sqrt(dot(start, start));
+        if (norm === 0) continue;
+        const similarity = dot(templateBeat, start) / (templateNorm * norm);
+        if (similarity >= threshold) matches.push({ startBeat: start, similarity });
+    }
+    return matches.sort((a, b) => b.similarity - a.similarity);
+}
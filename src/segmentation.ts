@@ -0,0 +1,386 @@
+// Structural Segmentation
+// Beat-synchronous features, self-similarity, checkerboard novelty, bar-snapped boundaries and A/B/C labels
+
+import type { AppState, Segment, WindowRange } from './types.js';
+
+// Feature values per array and beat: the beat is averaged over this many equal parts
+const BEAT_PARTS = 4;
+
+// Half-width of the checkerboard kernel, in bars
+const KERNEL_BARS = 4;
+
+// Shortest segment, in bars
+const MIN_SEGMENT_BARS = 4;
+
+// Novelty peaks must reach this fraction of the largest peak
+const MIN_PEAK_LEVEL = 0.25;
+
+// Cosine similarity of two segments' centred mean features above which they share a label
+const LABEL_SIMILARITY = 0.8;
+
+// Tint of each label, in label order
+const SEGMENT_COLORS = ['#ff6b6b', '#4cc9f0', '#ffd166', '#06d6a0', '#b388ff', '#ff9f1c', '#f72585', '#90be6d'];
+
+// Opacity of the segment tint
+const SEGMENT_ALPHA = 0.28;
+
+type SegmentationState = Pick<AppState,
+    'cachedVizMode' | 'cachedPowers' | 'cachedRGBPowers' | 'cachedBalance' | 'cachedBandPowers' | 'cachedChroma'>;
+
+/**
+ * Get the window data arrays of the shown mode that describe each window
+ * @param state - Cached analysis
+ * @returns Arrays with one value per window
+ */
+export function getSegmentationArrays(state: SegmentationState): Float32Array[] {
+    const { cachedVizMode, cachedPowers, cachedRGBPowers, cachedBalance, cachedBandPowers, cachedChroma } = state;
+    if (cachedVizMode === 'rgb' && cachedRGBPowers) return [cachedRGBPowers.low, cachedRGBPowers.mid, cachedRGBPowers.high];
+    if (cachedVizMode === 'bands' && cachedBandPowers) return cachedBandPowers;
+    if (!cachedPowers) return [];
+    if (cachedVizMode === 'chroma' && cachedChroma) return [cachedPowers, ...cachedChroma];
+    if (cachedVizMode === 'balance' && cachedBalance) {
+        // Shift pan position to 0-1 so it averages like the other values
+        return [cachedPowers, cachedBalance.map(value => (value + 1) / 2)];
+    }
+    return [cachedPowers];
+}
+
+/**
+ * Build one feature vector per beat from window data
+ * Each array is scaled to its maximum and log-compressed, then averaged over BEAT_PARTS parts of
+ * the beat, so vectors hold both the balance of the arrays and their rhythm within the beat.
+ * Vectors are normalized to unit length.
+ * @param arrays - Window data arrays of equal length
+ * @param samplesPerBeat - Windows per beat
+ * @param firstWindow - Window the first beat starts at, so beats can follow the curve's beat tiles
+ * @returns Feature vector per whole beat
+ */
+export function computeBeatFeatures(arrays: Float32Array[], samplesPerBeat: number, firstWindow = 0): Float32Array[] {
+    if (arrays.length === 0) return [];
+    const beats = Math.max(0, Math.floor((arrays[0].length - firstWindow) / samplesPerBeat));
+    const parts = Math.min(BEAT_PARTS, samplesPerBeat);
+    const scales = arrays.map(array => {
+        let max = 0;
+        for (let i = 0; i < array.length; i++) if (array[i] > max) max = array[i];
+        return max > 0 ? 1 / max : 0;
+    });
+
+    const features: Float32Array[] = [];
+    for (let beat = 0; beat < beats; beat++) {
+        const vector = new Float32Array(arrays.length * parts);
+        let norm = 0;
+        arrays.forEach((array, a) => {
+            for (let part = 0; part < parts; part++) {
+                const from = firstWindow + beat * samplesPerBeat + Math.floor((part * samplesPerBeat) / parts);
+                const to = firstWindow + beat * samplesPerBeat + Math.floor(((part + 1) * samplesPerBeat) / parts);
+                let sum = 0;
+                for (let i = from; i < to; i++) sum += Math.log1p(100 * array[i] * scales[a]);
+                const value = sum / (to - from);
+                vector[a * parts + part] = value;
+                norm += value * value;
+            }
+        });
+        if (norm > 0) {
+            const scale = 1 / Math.sqrt(norm);
+            for (let i = 0; i < vector.length; i++) vector[i] *= scale;
+        }
+        features.push(vector);
+    }
+    return features;
+}
+
+/**
+ * Average beat features over whole bars, or any other run of beats
+ * @param features - Unit feature vector per beat
+ * @param beatsPerBar - Beats per bar (or per run)
+ * @returns Unit feature vector per whole bar
+ */
+export function computeBarFeatures(features: Float32Array[], beatsPerBar: number): Float32Array[] {
+    const bars: Float32Array[] = [];
+    for (let start = 0; start + beatsPerBar <= features.length; start += beatsPerBar) {
+        const vector = new Float32Array(features[start].length);
+        for (let beat = start; beat < start + beatsPerBar; beat++) {
+            for (let k = 0; k < vector.length; k++) vector[k] += features[beat][k];
+        }
+        let norm = 0;
+        for (let k = 0; k < vector.length; k++) norm += vector[k] * vector[k];
+        const scale = norm > 0 ? 1 / Math.sqrt(norm) : 0;
+        bars.push(vector.map(value => value * scale));
+    }
+    return bars;
+}
+
+/**
+ * Compute the self-similarity matrix of beat (or bar) features: cosine similarity of unit vectors
+ * @param features - Unit feature vector per beat or bar
+ * @returns Row-major n × n similarities (0-1 for non-negative features)
+ */
+export function computeSelfSimilarity(features: Float32Array[]): Float32Array {
+    const n = features.length;
+    const matrix = new Float32Array(n * n);
+    for (let i = 0; i < n; i++) {
+        matrix[i * n + i] = 1;
+        for (let j = i + 1; j < n; j++) {
+            const a = features[i], b = features[j];
+            let dot = 0;
+            for (let k = 0; k < a.length; k++) dot += a[k] * b[k];
+            matrix[i * n + j] = dot;
+            matrix[j * n + i] = dot;
+        }
+    }
+    return matrix;
+}
+
+/**
+ * Compute the part of the self-similarity matrix near its diagonal
+ * Memory and time grow with the number of beats times the band width, not its square, so
+ * hour-long tracks segment as easily as short ones.
+ * @param features - Unit feature vector per beat
+ * @param reach - Largest distance in beats between two compared beats
+ * @returns Row-major beats × (2 × reach + 1) similarities: entry (i, reach + d) compares beat i
+ *          with beat i + d, and is 0 where that beat is outside the track
+ */
+export function computeDiagonalBand(features: Float32Array[], reach: number): Float32Array {
+    const n = features.length;
+    const stride = 2 * reach + 1;
+    const band = new Float32Array(n * stride);
+    for (let i = 0; i < n; i++) {
+        band[i * stride + reach] = 1;
+        for (let j = i + 1; j <= Math.min(n - 1, i + reach); j++) {
+            const a = features[i], b = features[j];
+            let dot = 0;
+            for (let k = 0; k < a.length; k++) dot += a[k] * b[k];
+            band[i * stride + reach + (j - i)] = dot;
+            band[j * stride + reach - (j - i)] = dot;
+        }
+    }
+    return band;
+}
+
+/**
+ * Slide a Gaussian-tapered checkerboard kernel along the diagonal of the self-similarity matrix
+ * Novelty is high where the past and future beats are each self-similar but unlike one another.
+ * The kernel sums to zero, so only beats it fits around completely are scored; the first and
+ * last halfWidth beats get no novelty.
+ * @param band - Diagonal band from computeDiagonalBand with a reach of at least 2 × halfWidth - 1
+ * @param reach - Reach the band was computed with
+ * @param beats - Number of beats
+ * @param halfWidth - Kernel half-width in beats
+ * @returns Novelty per beat (0-1)
+ */
+export function computeNovelty(band: Float32Array, reach: number, beats: number, halfWidth: number): Float32Array {
+    const kernel = new Float32Array(4 * halfWidth * halfWidth);
+    const size = 2 * halfWidth;
+    const sigma = halfWidth / 2;
+    for (let u = 0; u < size; u++) {
+        for (let v = 0; v < size; v++) {
+            const du = u - halfWidth + 0.5, dv = v - halfWidth + 0.5;
+            const sign = (du < 0) === (dv < 0) ? 1 : -1;
+            kernel[u * size + v] = sign * Math.exp(-(du * du + dv * dv) / (2 * sigma * sigma));
+        }
+    }
+
+    const stride = 2 * reach + 1;
+    const novelty = new Float32Array(beats);
+    let max = 0;
+    for (let beat = halfWidth; beat + halfWidth <= beats; beat++) {
+        let sum = 0;
+        for (let u = 0; u < size; u++) {
+            // Column beat - halfWidth + v of row beat - halfWidth + u sits v - u from the diagonal
+            const row = (beat - halfWidth + u) * stride + reach - u;
+            for (let v = 0; v < size; v++) {
+                sum += kernel[u * size + v] * band[row + v];
+            }
+        }
+        novelty[beat] = Math.max(0, sum);
+        if (novelty[beat] > max) max = novelty[beat];
+    }
+    if (max > 0) {
+        for (let beat = 0; beat < beats; beat++) novelty[beat] /= max;
+    }
+    return novelty;
+}
+
+/**
+ * Pick segment boundaries from novelty peaks, snapped to bar lines
+ * Peaks are taken strongest first, skipping any closer than MIN_SEGMENT_BARS to one already taken.
+ * @param novelty - Novelty per beat
+ * @param beatsPerBar - Beats per bar
+ * @returns Boundary beats, ascending, starting at 0 and ending at the number of beats
+ */
+export function pickBoundaries(novelty: Float32Array, beatsPerBar: number): number[] {
+    const beats = novelty.length;
+    const minGap = MIN_SEGMENT_BARS * beatsPerBar;
+
+    const peaks: number[] = [];
+    for (let beat = 1; beat < beats - 1; beat++) {
+        if (novelty[beat] >= MIN_PEAK_LEVEL && novelty[beat] > novelty[beat - 1] && novelty[beat] >= novelty[beat + 1]) {
+            peaks.push(beat);
+        }
+    }
+    peaks.sort((a, b) => novelty[b] - novelty[a]);
+
+    const boundaries = [0, beats];
+    for (const peak of peaks) {
+        const bar = Math.round(peak / beatsPerBar) * beatsPerBar;
+        if (boundaries.every(boundary => Math.abs(boundary - bar) >= minGap)) boundaries.push(bar);
+    }
+    return boundaries.sort((a, b) => a - b);
+}
+
+/**
+ * Label segments so that similar ones share a letter
+ * Segments are compared by their mean feature vector less the mean of the whole track, so what
+ * every segment shares does not make them all alike. Each segment joins the first earlier label
+ * whose mean it matches (cosine similarity of at least LABEL_SIMILARITY), or starts the next letter.
+ * @param features - Unit feature vector per beat
+ * @param boundaries - Boundary beats from pickBoundaries
+ * @returns Labelled segments in order
+ */
+export function labelSegments(features: Float32Array[], boundaries: number[]): Segment[] {
+    const dims = features[0]?.length ?? 0;
+    const sumBeats = (from: number, to: number): Float32Array => {
+        const sum = new Float32Array(dims);
+        for (let beat = from; beat < to; beat++) {
+            for (let k = 0; k < dims; k++) sum[k] += features[beat][k];
+        }
+        return sum;
+    };
+    const trackMean = sumBeats(0, features.length).map(value => value / features.length);
+    const centredMean = (from: number, to: number): Float32Array => {
+        const mean = sumBeats(from, to).map((value, k) => value / (to - from) - trackMean[k]);
+        let norm = 0;
+        for (let k = 0; k < dims; k++) norm += mean[k] * mean[k];
+        const scale = norm > 0 ? 1 / Math.sqrt(norm) : 0;
+        return mean.map(value => value * scale);
+    };
+
+    const labelMeans: Float32Array[] = [];
+    const segments: Segment[] = [];
+    for (let s = 0; s + 1 < boundaries.length; s++) {
+        const [startBeat, endBeat] = [boundaries[s], boundaries[s + 1]];
+        const mean = centredMean(startBeat, endBeat);
+        let label = labelMeans.findIndex(other => {
+            let dot = 0;
+            for (let k = 0; k < dims; k++) dot += other[k] * mean[k];
+            return dot >= LABEL_SIMILARITY;
+        });
+        if (label < 0) {
+            label = labelMeans.length;
+            labelMeans.push(mean);
+        }
+        segments.push({ startBeat, endBeat, label });
+    }
+    return segments;
+}
+
+/**
+ * Segment window data into labelled sections
+ * @param arrays - Window data arrays from getSegmentationArrays
+ * @param samplesPerBeat - Windows per beat
+ * @param beatsPerBar - Beats per bar
+ * @returns Labelled segments covering every whole beat, or none for less than two bars
+ */
+export function segmentStructure(arrays: Float32Array[], samplesPerBeat: number, beatsPerBar: number): Segment[] {
+    const features = computeBeatFeatures(arrays, samplesPerBeat);
+    if (features.length < 2 * beatsPerBar) return [];
+    const halfWidth = KERNEL_BARS * beatsPerBar;
+    const reach = 2 * halfWidth - 1;
+    const novelty = computeNovelty(computeDiagonalBand(features, reach), reach, features.length, halfWidth);
+    return labelSegments(features, pickBoundaries(novelty, beatsPerBar));
+}
+
+/**
+ * Get the letter of a segment label: A-Z, then A2, B2, …
+ * @param label - Label index
+ * @returns Letter
+ */
+export function formatSegmentLabel(label: number): string {
+    const letter = String.fromCharCode(65 + (label % 26));
+    return label < 26 ? letter : `${letter}${Math.floor(label / 26) + 1}`;
+}
+
+/**
+ * Get the tint of a segment label
+ * @param label - Label index
+ * @returns "#rrggbb" color
+ */
+export function getSegmentColor(label: number): string {
+    return SEGMENT_COLORS[label % SEGMENT_COLORS.length];
+}
+
+/**
+ * Tint each segment's windows by label and letter it at the middle of its pixels
+ * @param ctx - Target context, the size of the canvas times scale
+ * @param curveIndices - Curve index per pixel from getCoordinateLUT
+ * @param width - Canvas width
+ * @param zOrderOffset - Z-order offset in windows
+ * @param segments - Segments
+ * @param samplesPerBeat - Windows per beat
+ * @param scale - Target pixels per canvas pixel
+ * @param fontSize - Letter size in target pixels
+ */
+export function drawSegments(
+    ctx: CanvasRenderingContext2D,
+    curveIndices: Uint32Array,
+    width: number,
+    zOrderOffset: number,
+    segments: Segment[],
+    samplesPerBeat: number,
+    scale: number,
+    fontSize: number
+): void {
+    const ranges: WindowRange[] = segments.map(segment => ({
+        firstWindow: segment.startBeat * samplesPerBeat,
+        endWindow: segment.endBeat * samplesPerBeat
+    }));
+    const rects: number[][] = segments.map(() => []);
+    const sumX = new Float64Array(segments.length);
+    const sumY = new Float64Array(segments.length);
+
+    for (let p = 0; p < curveIndices.length; p++) {
+        const window = curveIndices[p] - zOrderOffset;
+        // Segments are in order, so a binary search finds the one holding the window
+        let lo = 0, hi = ranges.length - 1;
+        while (lo < hi) {
+            const mid = (lo + hi + 1) >> 1;
+            if (ranges[mid].firstWindow <= window) lo = mid; else hi = mid - 1;
+        }
+        if (ranges.length === 0 || window < ranges[lo].firstWindow || window >= ranges[lo].endWindow) continue;
+
+        const x = p % width;
+        const y = (p - x) / width;
+        rects[lo].push(x, y);
+        sumX[lo] += x;
+        sumY[lo] += y;
+    }
+
+    ctx.save();
+    segments.forEach((segment, s) => {
+        ctx.beginPath();
+        for (let r = 0; r < rects[s].length; r += 2) {
+            ctx.rect(rects[s][r] * scale, rects[s][r + 1] * scale, scale, scale);
+        }
+        ctx.globalAlpha = SEGMENT_ALPHA;
+        ctx.fillStyle = getSegmentColor(segment.label);
+        ctx.fill();
+    });
+
+    ctx.globalAlpha = 1;
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.lineWidth = Math.max(2, fontSize / 6);
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+    segments.forEach((segment, s) => {
+        const count = rects[s].length / 2;
+        if (count === 0) return;
+        const x = (sumX[s] / count + 0.5) * scale;
+        const y = (sumY[s] / count + 0.5) * scale;
+        const letter = formatSegmentLabel(segment.label);
+        ctx.strokeText(letter, x, y);
+        ctx.fillStyle = getSegmentColor(segment.label);
+        ctx.fillText(letter, x, y);
+    });
+    ctx.restore();
+}
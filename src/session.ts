@@ -0,0 +1,220 @@
+// Session Files
+// Versioned save and restore of analysis settings and cached per-window data
+
+import { createDefaultColorSettings } from './colormaps.js';
+import { createBandPreset } from './spectral-bands.js';
+import type { AudioFingerprint, BeatTrackingResult, GridAnalysis, SessionData, VizMode } from './types.js';
+
+// File signature at the start of the uncompressed session data
+const SESSION_MAGIC = 'WFSS';
+
+// Bump when the header or payload layout changes; older versions stay readable
+// Version 2 added the channel source and stereo balance grids, version 3 spectral band grids,
+// version 4 chroma grids, version 5 the mono and RGB feature sources, version 6 the onset method,
+// version 7 the color settings. Onset grids are stored like mono grids, holding the onset strength.
+export const SESSION_VERSION = 7;
+
+// Default file extension for session files
+export const SESSION_EXTENSION = '.wfsession';
+
+/**
+ * JSON header of a session file; window powers follow as binary float32 arrays
+ */
+interface SessionHeader {
+    fingerprint: AudioFingerprint;
+    settings: SessionData['settings'];
+    view: SessionData['view'];
+    tracking: BeatTrackingResult | null;
+    grids: {
+        tempoMap: GridAnalysis['cachedTempoMap'];
+        maxPowerMono: number;
+        maxPowerRGB: GridAnalysis['maxPowerRGB'];
+        maxPowerBands?: number[];
+        mode: VizMode;
+        windows: number;
+    }[];
+}
+
+/**
+ * Compute the SHA-256 hash of file contents
+ * @param data - File contents
+ * @returns Lowercase hex digest
+ */
+export async function computeContentHash(data: ArrayBuffer): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+    return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Pipe bytes through a compression or decompression stream
+ */
+async function transformBytes(data: BlobPart, transform: CompressionStream | DecompressionStream): Promise<ArrayBuffer> {
+    return new Response(new Blob([data]).stream().pipeThrough(transform)).arrayBuffer();
+}
+
+/**
+ * Get the visualization mode a grid was analysed for
+ */
+function getGridMode(grid: GridAnalysis): VizMode {
+    if (grid.cachedRGBPowers) return 'rgb';
+    if (grid.cachedBandPowers) return 'bands';
+    if (grid.cachedChroma) return 'chroma';
+    return grid.cachedBalance ? 'balance' : 'mono';
+}
+
+/**
+ * Get the window data arrays of a grid in payload order
+ */
+function getGridArrays(grid: GridAnalysis): Float32Array[] {
+    if (grid.cachedRGBPowers) {
+        return [grid.cachedRGBPowers.low, grid.cachedRGBPowers.mid, grid.cachedRGBPowers.high];
+    }
+    if (grid.cachedBandPowers) {
+        return grid.cachedBandPowers;
+    }
+    return [grid.cachedPowers, grid.cachedBalance, ...(grid.cachedChroma ?? [])]
+        .filter((array): array is Float32Array => array !== null);
+}
+
+/**
+ * Encode a session as a gzip-compressed binary file
+ * Layout: magic, version, header length, JSON header (space-padded to 4 bytes),
+ * then every grid's window powers as little-endian float32.
+ * @param session - Session contents
+ * @returns Session file
+ */
+export async function encodeSession(session: SessionData): Promise<Blob> {
+    const header: SessionHeader = {
+        fingerprint: session.fingerprint,
+        settings: session.settings,
+        view: session.view,
+        tracking: session.tracking,
+        grids: session.grids.map(grid => ({
+            tempoMap: grid.cachedTempoMap,
+            maxPowerMono: grid.maxPowerMono,
+            maxPowerRGB: grid.maxPowerRGB,
+            maxPowerBands: grid.maxPowerBands,
+            mode: getGridMode(grid),
+            windows: getGridArrays(grid)[0]?.length ?? 0
+        }))
+    };
+
+    let headerJSON = JSON.stringify(header);
+    while ((12 + new TextEncoder().encode(headerJSON).length) % 4 !== 0) headerJSON += ' ';
+    const headerBytes = new TextEncoder().encode(headerJSON);
+
+    const arrays = session.grids.flatMap(getGridArrays);
+    const payloadLength = arrays.reduce((total, array) => total + array.length * 4, 0);
+    const bytes = new Uint8Array(12 + headerBytes.length + payloadLength);
+    const view = new DataView(bytes.buffer);
+
+    for (let i = 0; i < 4; i++) bytes[i] = SESSION_MAGIC.charCodeAt(i);
+    view.setUint32(4, SESSION_VERSION, true);
+    view.setUint32(8, headerBytes.length, true);
+    bytes.set(headerBytes, 12);
+
+    let pos = 12 + headerBytes.length;
+    for (const array of arrays) {
+        for (let i = 0; i < array.length; i++, pos += 4) {
+            view.setFloat32(pos, array[i], true);
+        }
+    }
+
+    const compressed = await transformBytes(bytes, new CompressionStream('gzip'));
+    return new Blob([compressed], { type: 'application/octet-stream' });
+}
+
+/**
+ * Decode a session file
+ * @param data - File contents (gzip-compressed or raw)
+ * @returns Session contents
+ */
+export async function decodeSession(data: ArrayBuffer): Promise<SessionData> {
+    let raw = new Uint8Array(data);
+    if (raw.length >= 2 && raw[0] === 0x1f && raw[1] === 0x8b) {
+        raw = new Uint8Array(await transformBytes(data, new DecompressionStream('gzip')));
+    }
+
+    const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+    if (raw.length < 12 || String.fromCharCode(...raw.subarray(0, 4)) !== SESSION_MAGIC) {
+        throw new Error('Not a session file');
+    }
+
+    const version = view.getUint32(4, true);
+    if (version > SESSION_VERSION) {
+        throw new Error(`Session file version ${version} is newer than this app supports (${SESSION_VERSION})`);
+    }
+
+    const headerLength = view.getUint32(8, true);
+    const header: SessionHeader = JSON.parse(new TextDecoder().decode(raw.subarray(12, 12 + headerLength)));
+
+    let pos = 12 + headerLength;
+    const readArray = (length: number): Float32Array => {
+        if (pos + length * 4 > raw.length) throw new Error('Session file is truncated');
+        const array = new Float32Array(length);
+        for (let i = 0; i < length; i++, pos += 4) {
+            array[i] = view.getFloat32(pos, true);
+        }
+        return array;
+    };
+
+    const grids: GridAnalysis[] = header.grids.map(grid => {
+        const maxPowerBands = grid.maxPowerBands ?? [];
+        const base = {
+            maxPowerMono: grid.maxPowerMono,
+            maxPowerRGB: grid.maxPowerRGB,
+            maxPowerBands,
+            cachedTempoMap: grid.tempoMap,
+            cachedPowers: null,
+            cachedRGBPowers: null,
+            cachedBalance: null,
+            cachedBandPowers: null,
+            cachedChroma: null
+        };
+        if (grid.mode === 'rgb') {
+            const low = readArray(grid.windows);
+            const mid = readArray(grid.windows);
+            const high = readArray(grid.windows);
+            return { ...base, cachedRGBPowers: { low, mid, high } };
+        }
+        if (grid.mode === 'bands') {
+            return { ...base, cachedBandPowers: maxPowerBands.map(() => readArray(grid.windows)) };
+        }
+        const cachedPowers = readArray(grid.windows);
+        const cachedBalance = grid.mode === 'balance' ? readArray(grid.windows) : null;
+        const cachedChroma = grid.mode === 'chroma'
+            ? Array.from({ length: 12 }, () => readArray(grid.windows))
+            : null;
+        return { ...base, cachedPowers, cachedBalance, cachedChroma };
+    });
+
+    // Fill in settings added after the file's version
+    const settings = { ...header.settings };
+    if (version < 2) {
+        // Version 1 analysed the left channel only
+        settings.channelSource = 'left';
+    }
+    if (version < 3) {
+        settings.spectralBands = createBandPreset('octave');
+        settings.windowFunction = 'hann';
+    }
+    if (version < 5) {
+        settings.monoFeature = 'rms';
+        settings.rgbSources = ['band', 'band', 'band'];
+    }
+    if (version < 6) {
+        settings.onsetMethod = 'flux';
+    }
+    const sessionView = { ...header.view };
+    if (version < 7) {
+        sessionView.color = createDefaultColorSettings();
+    }
+
+    return {
+        fingerprint: header.fingerprint,
+        settings,
+        view: sessionView,
+        grids,
+        tracking: header.tracking
+    };
+}
@@ -0,0 +1,74 @@
+// Self-Similarity Matrix View
+// Drawing of a beat- or bar-level self-similarity matrix, the playback crosshair and the hovered cell
+
+import type { RGBColor } from './types.js';
+
+/**
+ * Draw a self-similarity matrix one pixel per cell through a colormap
+ * Similarities are stretched from the lowest in the matrix to 1, so the contrast between
+ * repeated and new material fills the colormap.
+ * @param ctx - Target context, at least size × size
+ * @param matrix - Row-major size × size similarities
+ * @param size - Number of beats or bars
+ * @param colormap - Colors from low to high similarity
+ */
+export function drawSimilarityMatrix(
+    ctx: CanvasRenderingContext2D,
+    matrix: Float32Array,
+    size: number,
+    colormap: RGBColor[]
+): void {
+    let min = 1;
+    for (let i = 0; i < matrix.length; i++) {
+        if (matrix[i] < min) min = matrix[i];
+    }
+    const range = 1 - min || 1;
+
+    const imageData = ctx.createImageData(size, size);
+    const { data } = imageData;
+    for (let i = 0; i < matrix.length; i++) {
+        const level = Math.max(0, Math.min(1, (matrix[i] - min) / range));
+        const [r, g, b] = colormap[Math.min(colormap.length - 1, Math.floor(level * colormap.length))];
+        data[i * 4] = r;
+        data[i * 4 + 1] = g;
+        data[i * 4 + 2] = b;
+        data[i * 4 + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+}
+
+/**
+ * Draw the playback crosshair and the hovered cell over a self-similarity matrix
+ * @param ctx - Overlay context
+ * @param scale - Overlay pixels per matrix cell
+ * @param playing - Beat or bar at the playback position, or null to leave out the crosshair
+ * @param hover - Hovered cell as [row, column], or null
+ */
+export function drawSimilarityCursor(
+    ctx: CanvasRenderingContext2D,
+    scale: number,
+    playing: number | null,
+    hover: [number, number] | null
+): void {
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    ctx.save();
+    ctx.lineWidth = Math.max(1, window.devicePixelRatio || 1);
+
+    if (playing !== null) {
+        const center = (playing + 0.5) * scale;
+        ctx.strokeStyle = 'rgba(255, 255, 100, 0.8)';
+        ctx.beginPath();
+        ctx.moveTo(center, 0);
+        ctx.lineTo(center, ctx.canvas.height);
+        ctx.moveTo(0, center);
+        ctx.lineTo(ctx.canvas.width, center);
+        ctx.stroke();
+    }
+
+    if (hover) {
+        const [row, column] = hover;
+        ctx.strokeStyle = '#ffffff';
+        ctx.strokeRect(column * scale, row * scale, Math.max(scale, 2), Math.max(scale, 2));
+    }
+    ctx.restore();
+}
@@ -0,0 +1,141 @@
+// Spectral Bands
+// Band presets, band list parsing and FFT bin ranges for the spectral bands mode
+
+import { formatHexColor, parseHexColor } from './colormaps.js';
+import { hsvToRGB } from './visualizer.js';
+import type { RGBColor, SpectralBand, SpectralBandPreset } from './types.js';
+
+// Bark critical band edges (Zwicker), in Hz
+const BARK_EDGES = [
+    20, 100, 200, 300, 400, 510, 630, 770, 920, 1080, 1270, 1480, 1720,
+    2000, 2320, 2700, 3150, 3700, 4400, 5300, 6400, 7700, 9500, 12000, 15500
+];
+
+// ISO octave band centers, in Hz
+const OCTAVE_CENTERS = [31.5, 63, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+// Mel preset: band count and frequency range
+const MEL_BANDS = 12;
+const MEL_MIN = 20;
+const MEL_MAX = 16000;
+
+/**
+ * Get the default color of a band: a hue ramp from red (lowest) to violet (highest)
+ * @param index - Band index
+ * @param count - Number of bands
+ * @returns RGB color
+ */
+export function getBandRampColor(index: number, count: number): RGBColor {
+    return hsvToRGB(count > 1 ? (index / (count - 1)) * 280 : 0, 1, 1);
+}
+
+/**
+ * Build bands between consecutive edges, colored along the hue ramp
+ * @param edges - Band edges in Hz, ascending
+ * @returns Bands
+ */
+function bandsFromEdges(edges: number[]): SpectralBand[] {
+    const count = edges.length - 1;
+    return Array.from({ length: count }, (_, i) => ({
+        low: edges[i],
+        high: edges[i + 1],
+        color: getBandRampColor(i, count)
+    }));
+}
+
+/**
+ * Create the bands of a preset
+ * @param preset - Band preset
+ * @returns Bands, lowest first
+ */
+export function createBandPreset(preset: SpectralBandPreset): SpectralBand[] {
+    switch (preset) {
+        case 'octave':
+            return bandsFromEdges([
+                ...OCTAVE_CENTERS.map(center => Math.round(center / Math.SQRT2)),
+                Math.round(OCTAVE_CENTERS[OCTAVE_CENTERS.length - 1] * Math.SQRT2)
+            ]);
+        case 'mel': {
+            const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+            const fromMel = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+            const step = (toMel(MEL_MAX) - toMel(MEL_MIN)) / MEL_BANDS;
+            return bandsFromEdges(
+                Array.from({ length: MEL_BANDS + 1 }, (_, i) => Math.round(fromMel(toMel(MEL_MIN) + i * step)))
+            );
+        }
+        case 'bark':
+            return bandsFromEdges(BARK_EDGES);
+        case 'rgb':
+            // The three bands of RGB mode, for a sharper FFT version of it
+            return [
+                { low: 20, high: 250, color: [255, 0, 0] },
+                { low: 250, high: 4000, color: [0, 255, 0] },
+                { low: 4000, high: 20000, color: [0, 0, 255] }
+            ];
+    }
+}
+
+/**
+ * Parse a band list: one "low Hz, high Hz[, #rrggbb]" per line
+ * Lines starting with # and a header row are skipped; bands without a color get one from the hue ramp.
+ * @param text - Band list text
+ * @returns Bands in the listed order
+ */
+export function parseBandsCSV(text: string): SpectralBand[] {
+    const rows: { low: number; high: number; color: RGBColor | null }[] = [];
+
+    text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) return;
+
+        const fields = line.split(/[,;\t ]+/).filter(field => field.length > 0);
+        const low = parseFloat(fields[0]);
+        const high = parseFloat(fields[1]);
+
+        if (isNaN(low) && rows.length === 0) return; // Header row
+        const color = fields.length > 2 ? parseHexColor(fields[2]) : null;
+        if (fields.length < 2 || isNaN(low) || isNaN(high) || low < 0 || high <= low || (fields.length > 2 && !color)) {
+            throw new Error(`Invalid band line ${lineIndex + 1}: "${line}"`);
+        }
+        rows.push({ low, high, color });
+    });
+
+    if (rows.length === 0) {
+        throw new Error('Band list is empty');
+    }
+    return rows.map((row, i) => ({ low: row.low, high: row.high, color: row.color ?? getBandRampColor(i, rows.length) }));
+}
+
+/**
+ * Format bands as a band list
+ * @param bands - Bands
+ * @returns Text with one "low, high, #rrggbb" line per band
+ */
+export function formatBandsCSV(bands: SpectralBand[]): string {
+    return bands
+        .map(({ low, high, color }) => `${parseFloat(low.toFixed(2))}, ${parseFloat(high.toFixed(2))}, ${formatHexColor(color)}`)
+        .join('\n');
+}
+
+/**
+ * Map each band to the FFT bins it covers
+ * Every band gets at least the bin nearest its center, so narrow low bands are never empty;
+ * frequencies above Nyquist are clamped to the last bin.
+ * @param bands - Bands
+ * @param fftSize - FFT size
+ * @param sampleRate - Audio sample rate
+ * @returns First and last bin of each band, inclusive
+ */
+export function computeBandBins(bands: SpectralBand[], fftSize: number, sampleRate: number): [number, number][] {
+    const binWidth = sampleRate / fftSize;
+    const lastBin = fftSize / 2;
+    const toBin = (hz: number) => Math.max(0, Math.min(lastBin, hz / binWidth));
+
+    return bands.map(({ low, high }) => {
+        const first = Math.ceil(toBin(low));
+        const last = Math.ceil(toBin(high)) - 1;
+        if (last >= first) return [first, last];
+        const center = Math.min(lastBin, Math.round(toBin(Math.sqrt(Math.max(low, 1) * high))));
+        return [center, center];
+    });
+}
@@ -0,0 +1,258 @@
+// Spectral Analysis
+// Real FFT, analysis window functions, per-window band powers and chroma
+
+import type { WindowFunction } from './types.js';
+
+/**
+ * Precomputed tables for a complex FFT of one size
+ */
+interface FFTTables {
+    size: number;
+    bitReverse: Uint32Array;
+    cos: Float64Array;
+    sin: Float64Array;
+}
+
+// Frequency range folded into chroma: A1 up to where harmonics stop carrying pitch
+const CHROMA_MIN_HZ = 55;
+const CHROMA_MAX_HZ = 5000;
+
+// Tables per complex FFT size, built on first use
+const fftTables = new Map<number, FFTTables>();
+
+/**
+ * Get the bit-reversal and twiddle tables for a complex FFT size
+ * @param size - Complex FFT size (power of 2)
+ * @returns FFT tables
+ */
+function getFFTTables(size: number): FFTTables {
+    let tables = fftTables.get(size);
+    if (tables) return tables;
+
+    const bits = Math.log2(size);
+    const bitReverse = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+        let reversed = 0;
+        for (let b = 0; b < bits; b++) {
+            reversed |= ((i >> b) & 1) << (bits - 1 - b);
+        }
+        bitReverse[i] = reversed;
+    }
+
+    const cos = new Float64Array(size / 2);
+    const sin = new Float64Array(size / 2);
+    for (let k = 0; k < size / 2; k++) {
+        cos[k] = Math.cos((2 * Math.PI * k) / size);
+        sin[k] = -Math.sin((2 * Math.PI * k) / size);
+    }
+
+    tables = { size, bitReverse, cos, sin };
+    fftTables.set(size, tables);
+    return tables;
+}
+
+/**
+ * In-place iterative radix-2 complex FFT
+ * @param re - Real parts
+ * @param im - Imaginary parts
+ */
+function complexFFT(re: Float64Array, im: Float64Array): void {
+    const { size, bitReverse, cos, sin } = getFFTTables(re.length);
+
+    for (let i = 0; i < size; i++) {
+        const j = bitReverse[i];
+        if (j > i) {
+            const tr = re[i]; re[i] = re[j]; re[j] = tr;
+            const ti = im[i]; im[i] = im[j]; im[j] = ti;
+        }
+    }
+
+    for (let half = 1; half < size; half *= 2) {
+        const step = size / (half * 2);
+        for (let start = 0; start < size; start += half * 2) {
+            for (let k = 0; k < half; k++) {
+                const wr = cos[k * step];
+                const wi = sin[k * step];
+                const a = start + k;
+                const b = a + half;
+                const tr = re[b] * wr - im[b] * wi;
+                const ti = re[b] * wi + im[b] * wr;
+                re[b] = re[a] - tr;
+                im[b] = im[a] - ti;
+                re[a] += tr;
+                im[a] += ti;
+            }
+        }
+    }
+}
+
+/**
+ * Scratch buffers reused across windows of one FFT size
+ */
+export interface SpectrumScratch {
+    re: Float64Array;
+    im: Float64Array;
+    power: Float64Array;
+}
+
+/**
+ * Allocate scratch buffers for computePowerSpectrum
+ * @param size - FFT size (power of 2, at least 2)
+ * @returns Scratch buffers
+ */
+export function createSpectrumScratch(size: number): SpectrumScratch {
+    return {
+        re: new Float64Array(size / 2),
+        im: new Float64Array(size / 2),
+        power: new Float64Array(size / 2 + 1)
+    };
+}
+
+/**
+ * Compute the power spectrum |X[k]|² (k = 0..size/2) of a windowed frame
+ * Packs the real frame into a half-size complex FFT and separates the even and odd parts.
+ * Samples past the end of the signal are treated as silence.
+ * @param audioData - Signal
+ * @param start - First sample of the frame
+ * @param window - Window function values; its length is the FFT size
+ * @param scratch - Buffers from createSpectrumScratch; the result is in scratch.power
+ */
+export function computePowerSpectrum(
+    audioData: Float32Array,
+    start: number,
+    window: Float32Array,
+    scratch: SpectrumScratch
+): void {
+    const size = window.length;
+    const half = size / 2;
+    const { re, im, power } = scratch;
+
+    for (let i = 0; i < half; i++) {
+        const even = start + 2 * i;
+        re[i] = even < audioData.length ? audioData[even] * window[2 * i] : 0;
+        im[i] = even + 1 < audioData.length ? audioData[even + 1] * window[2 * i + 1] : 0;
+    }
+
+    complexFFT(re, im);
+
+    // X[k] = E[k] + W^k O[k], with E and O recovered from Z[k] and conj(Z[half - k]);
+    // the twiddles W^k = e^{-2πik/size} are the first half of the full-size FFT table
+    const { cos, sin } = getFFTTables(size);
+    power[0] = (re[0] + im[0]) ** 2;
+    power[half] = (re[0] - im[0]) ** 2;
+    for (let k = 1; k < half; k++) {
+        const cr = re[half - k], ci = -im[half - k];
+        const er = (re[k] + cr) / 2, ei = (im[k] + ci) / 2;
+        const or = (im[k] - ci) / 2, oi = (cr - re[k]) / 2;
+        const xr = er + or * cos[k] - oi * sin[k];
+        const xi = ei + or * sin[k] + oi * cos[k];
+        power[k] = xr * xr + xi * xi;
+    }
+}
+
+/**
+ * Create the values of an analysis window function
+ * @param type - Window function
+ * @param size - Window length
+ * @returns Window values
+ */
+export function createWindowFunction(type: WindowFunction, size: number): Float32Array {
+    const window = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+        const phase = (2 * Math.PI * i) / size;
+        switch (type) {
+            case 'hann':
+                window[i] = 0.5 - 0.5 * Math.cos(phase);
+                break;
+            case 'hamming':
+                window[i] = 0.54 - 0.46 * Math.cos(phase);
+                break;
+            case 'blackman':
+                window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+                break;
+            default:
+                window[i] = 1;
+        }
+    }
+    return window;
+}
+
+/**
+ * Calculate the power of each frequency band for every window
+ * A band's power is the root of its summed spectral power, scaled by the window length.
+ * @param audioData - Signal
+ * @param windowStarts - Start sample per window
+ * @param window - Window function values (from createWindowFunction); its length is the FFT size
+ * @param bandBins - First and last FFT bin of each band, inclusive
+ * @returns Power per window for each band
+ */
+export function computeWindowBandPowers(
+    audioData: Float32Array,
+    windowStarts: Uint32Array,
+    window: Float32Array,
+    bandBins: [number, number][]
+): Float32Array[] {
+    const powers = bandBins.map(() => new Float32Array(windowStarts.length));
+    const scratch = createSpectrumScratch(window.length);
+
+    for (let i = 0; i < windowStarts.length; i++) {
+        computePowerSpectrum(audioData, windowStarts[i], window, scratch);
+        for (let b = 0; b < bandBins.length; b++) {
+            const [first, last] = bandBins[b];
+            let sum = 0;
+            for (let k = first; k <= last; k++) sum += scratch.power[k];
+            powers[b][i] = Math.sqrt(sum) / window.length;
+        }
+    }
+    return powers;
+}
+
+/**
+ * Map each FFT bin to the pitch class of its center frequency
+ * @param fftSize - FFT size
+ * @param sampleRate - Audio sample rate
+ * @returns Pitch class per bin (0 = C … 11 = B), or -1 outside the chroma range
+ */
+export function computeChromaBins(fftSize: number, sampleRate: number): Int8Array {
+    const pitchClasses = new Int8Array(fftSize / 2 + 1).fill(-1);
+    for (let k = 1; k < pitchClasses.length; k++) {
+        const hz = (k * sampleRate) / fftSize;
+        if (hz < CHROMA_MIN_HZ || hz > CHROMA_MAX_HZ) continue;
+        const midiNote = Math.round(69 + 12 * Math.log2(hz / 440));
+        pitchClasses[k] = ((midiNote % 12) + 12) % 12;
+    }
+    return pitchClasses;
+}
+
+/**
+ * Calculate the 12-bin chroma vector of every window
+ * Each pitch class sums the spectral power of its bins across all octaves; like band powers,
+ * the result is the root of that sum scaled by the window length.
+ * @param audioData - Signal
+ * @param windowStarts - Start sample per window
+ * @param window - Window function values (from createWindowFunction); its length is the FFT size
+ * @param pitchClasses - Pitch class per FFT bin from computeChromaBins
+ * @returns Power per window for each pitch class, C first
+ */
+export function computeWindowChroma(
+    audioData: Float32Array,
+    windowStarts: Uint32Array,
+    window: Float32Array,
+    pitchClasses: Int8Array
+): Float32Array[] {
+    const chroma = Array.from({ length: 12 }, () => new Float32Array(windowStarts.length));
+    const scratch = createSpectrumScratch(window.length);
+    const sums = new Float64Array(12);
+
+    for (let i = 0; i < windowStarts.length; i++) {
+        computePowerSpectrum(audioData, windowStarts[i], window, scratch);
+        sums.fill(0);
+        for (let k = 0; k < pitchClasses.length; k++) {
+            if (pitchClasses[k] >= 0) sums[pitchClasses[k]] += scratch.power[k];
+        }
+        for (let pc = 0; pc < 12; pc++) {
+            chroma[pc][i] = Math.sqrt(sums[pc]) / window.length;
+        }
+    }
+    return chroma;
+}
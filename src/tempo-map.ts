@@ -0,0 +1,281 @@
+// Tempo Map Utilities
+// Piecewise-constant tempo (time, BPM) segments for beat-synchronous window placement
+
+import type { TempoMap, TempoSegment } from './types.js';
+
+// MIDI files without a Set Tempo event play at 120 BPM
+const DEFAULT_MIDI_TEMPO_US = 500000;
+
+/**
+ * Create a tempo map with a single constant tempo
+ * @param bpm - Tempo in beats per minute
+ * @returns Tempo map
+ */
+export function createConstantTempoMap(bpm: number): TempoMap {
+    return [{ time: 0, bpm }];
+}
+
+/**
+ * Sort, validate and deduplicate tempo segments
+ * @param segments - Unordered tempo segments
+ * @returns Normalized tempo map
+ */
+export function normalizeTempoMap(segments: TempoSegment[]): TempoMap {
+    if (segments.length === 0) {
+        throw new Error('Tempo map is empty');
+    }
+
+    for (const { time, bpm } of segments) {
+        if (!isFinite(time) || time < 0) throw new Error(`Invalid tempo map time: ${time}`);
+        if (!isFinite(bpm) || bpm <= 0) throw new Error(`Invalid tempo map BPM: ${bpm}`);
+    }
+
+    const sorted = [...segments].sort((a, b) => a.time - b.time);
+
+    // Later entries at the same time replace earlier ones
+    const map: TempoMap = [];
+    for (const segment of sorted) {
+        if (map.length > 0 && map[map.length - 1].time === segment.time) {
+            map[map.length - 1] = { ...segment };
+        } else {
+            map.push({ ...segment });
+        }
+    }
+    return map;
+}
+
+/**
+ * Compute the beat position at the start of each segment
+ * The first segment's tempo also applies before its start time.
+ */
+function getSegmentStartBeats(tempoMap: TempoMap): number[] {
+    const beats: number[] = [tempoMap[0].time * tempoMap[0].bpm / 60];
+    for (let k = 1; k < tempoMap.length; k++) {
+        const prev = tempoMap[k - 1];
+        beats.push(beats[k - 1] + (tempoMap[k].time - prev.time) * prev.bpm / 60);
+    }
+    return beats;
+}
+
+/**
+ * Convert time to beat position
+ * @param time - Time in seconds (may be negative)
+ * @param tempoMap - Tempo map
+ * @returns Beat position (fractional)
+ */
+export function timeToBeat(time: number, tempoMap: TempoMap): number {
+    const startBeats = getSegmentStartBeats(tempoMap);
+    let k = 0;
+    while (k + 1 < tempoMap.length && tempoMap[k + 1].time <= time) k++;
+    return startBeats[k] + (time - tempoMap[k].time) * tempoMap[k].bpm / 60;
+}
+
+/**
+ * Convert beat position to time
+ * @param beat - Beat position (fractional, may be negative)
+ * @param tempoMap - Tempo map
+ * @returns Time in seconds
+ */
+export function beatToTime(beat: number, tempoMap: TempoMap): number {
+    const startBeats = getSegmentStartBeats(tempoMap);
+    let k = 0;
+    while (k + 1 < tempoMap.length && startBeats[k + 1] <= beat) k++;
+    return tempoMap[k].time + (beat - startBeats[k]) * 60 / tempoMap[k].bpm;
+}
+
+/**
+ * Count the windows that fit in the audio when windows follow the beat
+ * @param tempoMap - Tempo map
+ * @param samplesPerBeat - Windows per beat
+ * @param duration - Audio duration in seconds
+ * @returns Number of windows
+ */
+export function countWindows(tempoMap: TempoMap, samplesPerBeat: number, duration: number): number {
+    return Math.max(0, Math.floor(timeToBeat(duration, tempoMap) * samplesPerBeat));
+}
+
+/**
+ * Compute the start sample of every window, each window being a fixed fraction of a beat
+ * @param tempoMap - Tempo map
+ * @param samplesPerBeat - Windows per beat
+ * @param sampleRate - Audio sample rate
+ * @param totalWindows - Number of windows
+ * @returns Start sample per window
+ */
+export function computeWindowStartSamples(
+    tempoMap: TempoMap,
+    samplesPerBeat: number,
+    sampleRate: number,
+    totalWindows: number
+): Uint32Array {
+    const startBeats = getSegmentStartBeats(tempoMap);
+    const starts = new Uint32Array(totalWindows);
+
+    // Windows are in increasing beat order, so walk the segments once
+    let k = 0;
+    for (let i = 0; i < totalWindows; i++) {
+        const beat = i / samplesPerBeat;
+        while (k + 1 < tempoMap.length && startBeats[k + 1] <= beat) k++;
+        const time = tempoMap[k].time + (beat - startBeats[k]) * 60 / tempoMap[k].bpm;
+        starts[i] = Math.max(0, Math.round(time * sampleRate));
+    }
+    return starts;
+}
+
+/**
+ * Parse a tempo map from CSV text
+ * Each line holds "time, bpm" (seconds, beats per minute). Blank lines, lines
+ * starting with # and a non-numeric header line are ignored.
+ * @param text - CSV text
+ * @returns Normalized tempo map
+ */
+export function parseTempoMapCSV(text: string): TempoMap {
+    const segments: TempoSegment[] = [];
+    const lines = text.split(/\r?\n/);
+
+    lines.forEach((rawLine, lineIndex) => {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) return;
+
+        const fields = line.split(/[,;\t ]+/).filter(field => field.length > 0);
+        const time = parseFloat(fields[0]);
+        const bpm = parseFloat(fields[1]);
+
+        if (isNaN(time) && segments.length === 0) return; // Header row
+        if (fields.length < 2 || isNaN(time) || isNaN(bpm)) {
+            throw new Error(`Invalid tempo map line ${lineIndex + 1}: "${line}"`);
+        }
+        segments.push({ time, bpm });
+    });
+
+    return normalizeTempoMap(segments);
+}
+
+/**
+ * Format a tempo map as CSV text
+ * @param tempoMap - Tempo map
+ * @returns CSV text with one "time, bpm" line per segment
+ */
+export function formatTempoMapCSV(tempoMap: TempoMap): string {
+    return tempoMap
+        .map(({ time, bpm }) => `${parseFloat(time.toFixed(3))}, ${parseFloat(bpm.toFixed(3))}`)
+        .join('\n');
+}
+
+/**
+ * Read a MIDI variable-length quantity
+ */
+function readVarLength(view: DataView, pos: number): { value: number; next: number } {
+    let value = 0;
+    let byte: number;
+    do {
+        byte = view.getUint8(pos++);
+        value = (value << 7) | (byte & 0x7f);
+    } while (byte & 0x80);
+    return { value, next: pos };
+}
+
+/**
+ * Read a 4-character chunk ID
+ */
+function readChunkId(view: DataView, pos: number): string {
+    return String.fromCharCode(
+        view.getUint8(pos), view.getUint8(pos + 1), view.getUint8(pos + 2), view.getUint8(pos + 3)
+    );
+}
+
+/**
+ * Parse the tempo track of a Standard MIDI File
+ * Collects Set Tempo meta events from all tracks and converts ticks to seconds.
+ * @param data - MIDI file contents
+ * @returns Normalized tempo map
+ */
+export function parseMidiTempoMap(data: ArrayBuffer): TempoMap {
+    const view = new DataView(data);
+
+    if (view.byteLength < 14 || readChunkId(view, 0) !== 'MThd') {
+        throw new Error('Not a MIDI file');
+    }
+
+    const headerLength = view.getUint32(4);
+    const division = view.getUint16(12);
+
+    if (division & 0x8000) {
+        throw new Error('SMPTE-timed MIDI files are not supported');
+    }
+    const ticksPerQuarter = division;
+
+    // Collect (tick, microseconds per quarter note) from every track
+    const tempoEvents: { tick: number; usPerQuarter: number }[] = [];
+    let pos = 8 + headerLength;
+
+    while (pos + 8 <= view.byteLength) {
+        const chunkId = readChunkId(view, pos);
+        const chunkLength = view.getUint32(pos + 4);
+        const chunkEnd = Math.min(pos + 8 + chunkLength, view.byteLength);
+        pos += 8;
+
+        // Skip unknown chunk types
+        if (chunkId !== 'MTrk') {
+            pos = chunkEnd;
+            continue;
+        }
+
+        let tick = 0;
+        let runningStatus = 0;
+
+        while (pos < chunkEnd) {
+            const delta = readVarLength(view, pos);
+            tick += delta.value;
+            pos = delta.next;
+
+            let status = view.getUint8(pos);
+            if (status & 0x80) {
+                pos++;
+            } else {
+                status = runningStatus; // Running status: reuse previous status byte
+            }
+
+            if (status === 0xff) {
+                const type = view.getUint8(pos++);
+                const length = readVarLength(view, pos);
+                pos = length.next;
+                if (type === 0x51 && length.value === 3) {
+                    const usPerQuarter = (view.getUint8(pos) << 16) | (view.getUint8(pos + 1) << 8) | view.getUint8(pos + 2);
+                    tempoEvents.push({ tick, usPerQuarter });
+                }
+                pos += length.value;
+            } else if (status === 0xf0 || status === 0xf7) {
+                const length = readVarLength(view, pos);
+                pos = length.next + length.value;
+            } else {
+                runningStatus = status;
+                const type = status & 0xf0;
+                pos += (type === 0xc0 || type === 0xd0) ? 1 : 2;
+            }
+        }
+
+        pos = chunkEnd;
+    }
+
+    tempoEvents.sort((a, b) => a.tick - b.tick);
+
+    // Convert ticks to seconds, integrating each tempo up to the next change
+    const segments: TempoSegment[] = [];
+    let lastTick = 0;
+    let lastTime = 0;
+    let usPerQuarter = DEFAULT_MIDI_TEMPO_US;
+
+    if (tempoEvents.length === 0 || tempoEvents[0].tick > 0) {
+        segments.push({ time: 0, bpm: 60000000 / DEFAULT_MIDI_TEMPO_US });
+    }
+
+    for (const event of tempoEvents) {
+        lastTime += ((event.tick - lastTick) / ticksPerQuarter) * (usPerQuarter / 1000000);
+        lastTick = event.tick;
+        usPerQuarter = event.usPerQuarter;
+        segments.push({ time: lastTime, bpm: 60000000 / usPerQuarter });
+    }
+
+    return normalizeTempoMap(segments);
+}
@@ -4,9 +4,9 @@
  * RGB power values for frequency bands
  */
 export interface RGBPowers {
-    low: number[];
-    mid: number[];
-    high: number[];
+    low: Float32Array;
+    mid: Float32Array;
+    high: Float32Array;
 }
 
 /**
@@ -27,25 +27,400 @@ export interface FilteredBands {
     high: Float32Array;
 }
 
+/**
+ * Visualization mode: power (Viridis), RGB frequency bands, stereo balance (hue from pan position),
+ * FFT spectral bands with a color per band, chroma (hue from the dominant pitch class),
+ * or onset strength (Viridis)
+ */
+export type VizMode = 'mono' | 'rgb' | 'balance' | 'bands' | 'chroma' | 'onset';
+
+/**
+ * Signal analysed in mono and RGB modes, derived from the left and right channels
+ */
+export type ChannelSource = 'left' | 'right' | 'mid' | 'side';
+
+/**
+ * Per-window feature: RMS power, spectral centroid (brightness), spectral flux (onsets),
+ * spectral flatness (noisiness), zero-crossing rate or high-frequency content (percussive energy)
+ */
+export type WindowFeature = 'rms' | 'centroid' | 'flux' | 'flatness' | 'zcr' | 'hfc';
+
+/**
+ * Novelty function the onset mode thresholds: spectral flux or high-frequency content
+ */
+export type OnsetMethod = Extract<WindowFeature, 'flux' | 'hfc'>;
+
+/**
+ * Source of one RGB channel: its filtered frequency band, or a feature of the whole signal
+ */
+export type RGBChannelSource = 'band' | WindowFeature;
+
+/**
+ * Analysis window applied before the FFT
+ */
+export type WindowFunction = 'hann' | 'hamming' | 'blackman' | 'rectangular';
+
+/**
+ * Frequency band of the spectral bands mode
+ */
+export interface SpectralBand {
+    low: number;
+    high: number;
+    color: RGBColor;
+}
+
+/**
+ * Predefined band layouts
+ */
+export type SpectralBandPreset = 'octave' | 'mel' | 'bark' | 'rgb';
+
+/**
+ * Colormap of the mono and onset modes
+ */
+export type ColormapName = 'viridis' | 'magma' | 'inferno' | 'cividis' | 'grayscale' | 'custom';
+
+/**
+ * Mapping of normalized levels to color intensity
+ */
+export type ColorScaling = 'linear' | 'db' | 'gamma';
+
+/**
+ * Color mapping applied to cached window data (changes without reprocessing)
+ * percentile is the percentile of each array used as its normalization maximum; 100 is the true maximum.
+ */
+export interface ColorSettings {
+    colormap: ColormapName;
+    customColormap: RGBColor[];
+    scaling: ColorScaling;
+    dbFloor: number;
+    gamma: number;
+    percentile: number;
+}
+
+/**
+ * Block size outlined by the beat grid: one beat, one bar, a 4-bar phrase or a 16-bar section
+ */
+export type GridLevel = 'beat' | 'bar' | 'phrase' | 'section';
+
+/**
+ * Grid levels shown over the visualization and their "#rrggbb" line colors
+ */
+export interface GridSettings {
+    enabled: Record<GridLevel, boolean>;
+    colors: Record<GridLevel, string>;
+}
+
+/**
+ * Value of one window shown by the hover inspector
+ * normalized is the value over its normalization maximum, or null for values that are not normalized (balance).
+ */
+export interface WindowValue {
+    label: string;
+    raw: number;
+    normalized: number | null;
+}
+
+/**
+ * Biquad filter response type (subset of the Web Audio BiquadFilterNode types)
+ */
+export type BiquadType = 'lowpass' | 'highpass' | 'bandpass';
+
+/**
+ * Biquad filter settings, with Q interpreted as by BiquadFilterNode
+ */
+export interface BiquadSettings {
+    type: BiquadType;
+    frequency: number;
+    Q: number;
+}
+
+/**
+ * Normalized biquad coefficients (a0 = 1)
+ */
+export interface BiquadCoefficients {
+    b0: number;
+    b1: number;
+    b2: number;
+    a1: number;
+    a2: number;
+}
+
+/**
+ * Decoded PCM audio, one array per channel
+ */
+export interface DecodedAudio {
+    sampleRate: number;
+    channels: Float32Array[];
+}
+
+/**
+ * Beat-tracking result
+ */
+export interface BeatTrackingResult {
+    beatTimes: number[];
+    drift: number[];
+    tempoMap: TempoMap;
+}
+
+/**
+ * Cached analysis for one window grid
+ * In balance mode, cachedPowers holds the combined power and cachedBalance the pan (-1 left to 1 right).
+ */
+export interface GridAnalysis {
+    cachedPowers: Float32Array | null;
+    cachedRGBPowers: RGBPowers | null;
+    cachedBalance: Float32Array | null;
+    cachedBandPowers: Float32Array[] | null;
+    cachedChroma: Float32Array[] | null;
+    maxPowerMono: number;
+    maxPowerRGB: MaxPowerRGB;
+    maxPowerBands: number[];
+    cachedTempoMap: TempoMap;
+}
+
+/**
+ * Fixed-BPM and drift-corrected analyses kept for comparison
+ */
+export interface DriftComparison {
+    fixed: GridAnalysis;
+    corrected: GridAnalysis;
+    tracking: BeatTrackingResult;
+}
+
+/**
+ * Window analysis job sent to the analysis worker
+ */
+export interface AnalysisRequest {
+    channels: Float32Array[];
+    grids: Uint32Array[];
+    windowSize: number;
+    spectrum?: SpectrumRequest;
+    chroma?: ChromaRequest;
+    features?: FeatureRequest;
+}
+
+/**
+ * FFT band analysis of the first channel, replacing RMS power with one output per band
+ */
+export interface SpectrumRequest {
+    windowFunction: WindowFunction;
+    bandBins: [number, number][];
+}
+
+/**
+ * Feature extracted from each channel in place of RMS power
+ */
+export interface FeatureRequest {
+    features: WindowFeature[];
+    sampleRate: number;
+}
+
+/**
+ * Chroma analysis of the first channel: RMS power followed by one output per pitch class
+ */
+export interface ChromaRequest {
+    pitchClasses: Int8Array;
+}
+
+/**
+ * Beat-tracking job sent to the analysis worker
+ */
+export interface BeatTrackingRequest {
+    audio: Float32Array;
+    sampleRate: number;
+    tempoMap: TempoMap;
+    offsetSeconds: number;
+}
+
+/**
+ * Jobs the analysis worker runs
+ */
+export type WorkerRequest = AnalysisRequest | BeatTrackingRequest;
+
+/**
+ * Messages streamed back from the analysis worker
+ */
+export type AnalysisResponse =
+    | { type: 'chunk'; grid: number; start: number; powers: Float32Array[] }
+    | { type: 'done' }
+    | { type: 'tracked'; tracking: BeatTrackingResult };
+
+/**
+ * Settings an analysis was run with (the nominal tempo map, before drift correction)
+ */
+export interface AnalysisSettings {
+    tempoMap: TempoMap;
+    samplesPerBeat: number;
+    subdivisionRadix: number;
+    windowSize: number;
+    vizMode: VizMode;
+    channelSource: ChannelSource;
+    monoFeature: WindowFeature;
+    rgbSources: [RGBChannelSource, RGBChannelSource, RGBChannelSource];
+    onsetMethod: OnsetMethod;
+    lowMidCutoff: number;
+    midHighCutoff: number;
+    spectralBands: SpectralBand[];
+    windowFunction: WindowFunction;
+    driftCorrection: boolean;
+}
+
+/**
+ * Block of bars on the canvas, in canvas pixels (bars counted from 1)
+ */
+export interface BarBlock {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    firstBar: number;
+    lastBar: number;
+}
+
+/**
+ * Contents of the frame around the visualization: bar blocks and the colorbar's top value
+ */
+export interface FrameContent {
+    blocks: BarBlock[];
+    normalizationMax: number;
+}
+
+/**
+ * Options for a PNG export
+ */
+export interface ExportOptions {
+    size: number;
+    legend: boolean;
+}
+
+/**
+ * Identifies the audio file an analysis belongs to
+ */
+export interface AudioFingerprint {
+    name: string;
+    size: number;
+    duration: number;
+    sha256: string;
+}
+
+/**
+ * View settings that change without reprocessing
+ */
+export interface SessionView {
+    offsetSeconds: number;
+    curveType: CurveType;
+    beatsPerBar: number;
+    driftView: 'corrected' | 'fixed';
+    color: ColorSettings;
+}
+
+/**
+ * Contents of a session file
+ * With drift correction, grids holds the fixed and corrected analyses in that order.
+ */
+export interface SessionData {
+    fingerprint: AudioFingerprint;
+    settings: AnalysisSettings;
+    view: SessionView;
+    grids: GridAnalysis[];
+    tracking: BeatTrackingResult | null;
+}
+
+/**
+ * Analysis results stored in the local cache
+ * With drift correction, grids holds the fixed and corrected analyses in that order.
+ */
+export interface CachedAnalysis {
+    grids: GridAnalysis[];
+    tracking: BeatTrackingResult | null;
+}
+
+/**
+ * Number and total size of cached analyses
+ */
+export interface CacheUsage {
+    entries: number;
+    bytes: number;
+}
+
 /**
  * Application state
  */
 export interface AppState {
     audioContext: AudioContext | null;
     audioBuffer: AudioBuffer | null;
+    trackName: string;
+    audioFingerprint: AudioFingerprint | null;
     isProcessing: boolean;
-    cachedPowers: number[] | null;
+    cachedPowers: Float32Array | null;
     cachedRGBPowers: RGBPowers | null;
+    cachedBalance: Float32Array | null;
+    cachedBandPowers: Float32Array[] | null;
+    cachedBandColors: RGBColor[];
+    cachedChroma: Float32Array[] | null;
     cachedCanvasWidth: number;
     cachedCanvasHeight: number;
     cachedSamplesPerBeat: number;
-    cachedVizMode: 'mono' | 'rgb';
+    cachedSubdivisionRadix: number;
+    cachedTempoMap: TempoMap;
+    cachedVizMode: VizMode;
+    curve: SpaceFillingCurve;
     maxPowerMono: number;
     maxPowerRGB: MaxPowerRGB;
+    maxPowerBands: number[];
+    colorSettings: ColorSettings;
+    driftComparison: DriftComparison | null;
+    cachedSettings: AnalysisSettings | null;
+}
+
+/**
+ * Span of audio in seconds
+ */
+export interface TimeSpan {
+    start: number;
+    end: number;
+}
+
+/**
+ * Run of windows from firstWindow up to (not including) endWindow
+ */
+export interface WindowRange {
+    firstWindow: number;
+    endWindow: number;
+}
+
+/**
+ * Named, colored span of a track, such as an intro or a drop
+ * color is "#rrggbb"; start and end are in seconds.
+ */
+export interface Section {
+    name: string;
+    color: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Stretch of a track found by structural segmentation, in whole beats (endBeat exclusive)
+ * Segments that sound alike share a label (0 = A, 1 = B, …).
+ */
+export interface Segment {
+    startBeat: number;
+    endBeat: number;
+    label: number;
+}
+
+/**
+ * Block found by repetition search, in whole beats from startBeat, with its similarity to the template
+ */
+export interface BlockMatch {
+    startBeat: number;
+    similarity: number;
 }
 
 /**
  * Playback state
+ * loop is the span played over and over, or null to play to the end.
  */
 export interface PlaybackState {
     audioSource: AudioBufferSourceNode | null;
@@ -54,6 +429,7 @@ export interface PlaybackState {
     playbackStartOffset: number;
     animationFrameId: number | null;
     currentPlaybackTime: number;
+    loop: TimeSpan | null;
 }
 
 /**
@@ -64,16 +440,61 @@ export interface Coordinates {
     y: number;
 }
 
+/**
+ * Tempo segment: constant BPM from the given time until the next segment
+ */
+export interface TempoSegment {
+    time: number;
+    bpm: number;
+}
+
+/**
+ * Tempo map: tempo segments sorted by time
+ */
+export type TempoMap = TempoSegment[];
+
+/**
+ * Canvas dimensions
+ */
+export interface CanvasSize {
+    width: number;
+    height: number;
+}
+
+/**
+ * Available space-filling curve layouts
+ */
+export type CurveType = 'zorder' | 'hilbert' | 'peano' | 'rowmajor';
+
+/**
+ * Parameters for curve construction
+ */
+export interface CurveParams {
+    samplesPerBeat: number;
+    beatsPerBar: number;
+    subdivisionRadix: number;
+}
+
+/**
+ * Space-filling curve mapping window indices to canvas coordinates
+ */
+export interface SpaceFillingCurve {
+    type: CurveType;
+    indexToCoordinates: (index: number) => Coordinates;
+    coordinatesToIndex: (x: number, y: number) => number;
+    getCanvasSize: (totalWindows: number) => CanvasSize;
+}
+
 /**
  * Parameters for canvas position calculation
  */
 export interface PositionParams {
-    bpm: number;
-    sampleRate: number;
+    tempoMap: TempoMap;
     cachedSamplesPerBeat: number;
     cachedCanvasWidth: number;
     cachedCanvasHeight: number;
     zOrderOffset: number;
+    curve: SpaceFillingCurve;
     audioBuffer?: AudioBuffer;
 }
 
@@ -81,10 +502,10 @@ export interface PositionParams {
  * Parameters for time calculation from canvas click
  */
 export interface TimeParams {
-    bpm: number;
-    sampleRate: number;
+    tempoMap: TempoMap;
     cachedSamplesPerBeat: number;
     zOrderOffset: number;
+    curve: SpaceFillingCurve;
     audioDuration: number;
 }
 
@@ -117,6 +538,8 @@ export interface MarkerParams {
     cachedCanvasWidth: number;
     cachedCanvasHeight: number;
     seekSlider: HTMLInputElement | null;
+    overlayLayers: HTMLCanvasElement[];
+    onsetPositions: Coordinates[];
     onGetPosition: (time: number) => Coordinates | null;
     onPausePlayback: () => void;
 }
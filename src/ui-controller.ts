@@ -2,28 +2,170 @@
 // Manages UI state, event handlers, and audio processing workflow
 
 import * as BeatDetector from 'web-audio-beat-detector';
-import { getZOrderCoordinates } from './z-order.js';
-import { calculateRMSPower, applyFrequencyFiltering } from './audio-processor.js';
-import { powerToColor, redrawCanvas } from './visualizer.js';
+import { createCurve, getCanvasCoordinates } from './curves.js';
+import {
+    createConstantTempoMap, parseTempoMapCSV, parseMidiTempoMap, formatTempoMapCSV,
+    timeToBeat, beatToTime, countWindows, computeWindowStartSamples
+} from './tempo-map.js';
+import { applyFrequencyFiltering, computeStereoBalance, deriveChannel, findMaxPower } from './audio-processor.js';
+import { runBeatTracking, runWindowAnalysis } from './analysis-runner.js';
+import { createDefaultColorSettings, formatColormapStops, getColormap, parseColormapStops, scaleLevel } from './colormaps.js';
+import {
+    balanceToColor, blendBandColors, chromaToColor, getCoordinateLUT, getNormalizationMax, hasCachedAnalysis, powerToColor,
+    redrawCanvas, renderPixels, drawDriftGraph
+} from './visualizer.js';
+import { computeBarBlocks, drawBarBlocks, drawColorbar } from './frame.js';
+import { drawBeatGrid, getFirstTileWindow, getGridBlockSize, getTileStart, GRID_LEVELS } from './grid.js';
+import { drawPhaseHighlight, formatMusicalPosition, getWindowValues } from './inspector.js';
+import { drawLoopRegion, snapLoopRegion } from './loop-region.js';
+import {
+    drawSectionOutlines, formatAudacityLabels, formatSectionsJSON, getSectionColor, getSectionWindows,
+    parseAudacityLabels, parseSectionsJSON
+} from './annotations.js';
+import {
+    computeBarFeatures, computeBeatFeatures, computeSelfSimilarity, drawSegments, formatSegmentLabel, getSegmentColor,
+    getSegmentationArrays, segmentStructure
+} from './segmentation.js';
+import { drawSimilarityCursor, drawSimilarityMatrix } from './similarity-view.js';
+import { findSimilarBlocks } from './repetition.js';
+import { computeFoldSpread, drawFoldSpread, foldPowerState, getFoldTileLayout } from './fold.js';
+import {
+    buildExportMetadata, canvasToPNG, downloadBlob, drawColorLegend, formatExportSummary, renderExportCanvas
+} from './image-export.js';
+import { buildCacheKey, clearAnalysisCache, getCacheUsage, getCachedAnalysis, putCachedAnalysis } from './analysis-cache.js';
+import { computeContentHash, decodeSession, encodeSession, SESSION_EXTENSION } from './session.js';
+import { computeBandBins, createBandPreset, formatBandsCSV, parseBandsCSV } from './spectral-bands.js';
+import { computeChromaBins } from './spectrum.js';
+import { computeOnsetStrength, detectOnsets } from './onsets.js';
 import {
     playbackState, startPlayback, pausePlayback, updateMarker, formatTime,
-    setupOverlayCanvas, getCanvasPositionForTime, getTimeForCanvasClick
+    setupOverlayCanvas, getCanvasPositionForTime, getTimeForCanvasClick, getPlaybackTime
 } from './playback.js';
-import type { AppState, FilteredBands } from './types.js';
+import type {
+    AnalysisSettings, AppState, BeatTrackingResult, BlockMatch, CachedAnalysis, ChannelSource, ColormapName, ColorScaling, ColorSettings,
+    Coordinates, CurveType, FrameContent, GridAnalysis, GridLevel, GridSettings, OnsetMethod, RGBChannelSource, RGBColor, Section, Segment, SessionData, SpaceFillingCurve, SpectralBand, SpectralBandPreset, TempoMap, VizMode,
+    WindowFeature, WindowFunction, WindowRange
+} from './types.js';
 
 // Application state
 const state: AppState = {
     audioContext: null,
     audioBuffer: null,
+    trackName: '',
+    audioFingerprint: null,
     isProcessing: false,
     cachedPowers: null,
     cachedRGBPowers: null,
+    cachedBalance: null,
+    cachedBandPowers: null,
+    cachedBandColors: [],
+    cachedChroma: null,
     cachedCanvasWidth: 0,
     cachedCanvasHeight: 0,
     cachedSamplesPerBeat: 0,
+    cachedSubdivisionRadix: 2,
+    cachedTempoMap: createConstantTempoMap(120),
     cachedVizMode: 'mono',
+    curve: createCurve('zorder', { samplesPerBeat: 256, beatsPerBar: 4, subdivisionRadix: 2 }),
     maxPowerMono: 1.0,
-    maxPowerRGB: { low: 1.0, mid: 1.0, high: 1.0 }
+    maxPowerRGB: { low: 1.0, mid: 1.0, high: 1.0 },
+    maxPowerBands: [],
+    colorSettings: createDefaultColorSettings(),
+    driftComparison: null,
+    cachedSettings: null
+};
+
+// Controller for the analysis currently running (null when idle)
+let analysisController: AbortController | null = null;
+
+// Onsets picked from the shown onset strength; rebuilt when the strength array changes
+let onsetCache: { source: Float32Array; onsets: Uint32Array } | null = null;
+
+// Layers drawn under the playback marker (grid, loop region, phase highlight), each redrawn only when its view changes
+const overlayLayers = new Map<string, { curve: SpaceFillingCurve; key: string; layer: HTMLCanvasElement }>();
+
+// Section annotations of the loaded track, sorted by start time
+let sections: Section[] = [];
+
+// Segments proposed by structural segmentation, shown tinted on the canvas, or null when hidden
+let segments: Segment[] | null = null;
+
+// Self-similarity matrix shown in the side panel; rebuilt when the analysis or resolution changes
+let similarity: {
+    source: Float32Array; key: string; matrix: Float32Array; size: number; unitBeats: number; firstWindow: number
+} | null = null;
+
+// Matrix cell under the pointer as [row, column] in beats or bars, or null
+let similarityHover: [number, number] | null = null;
+
+// Analysis, layout, offset and settings the fold panel's tiles were drawn for, so redraws that change none of them do not refold the track
+let foldedFor: { source: Float32Array; curve: SpaceFillingCurve; key: string } | null = null;
+
+// Window shift-clicked as the template of a repetition search, or null when no search is shown
+let matchTemplateWindow: number | null = null;
+
+// Template block and the blocks that repeat it, most similar first, in whole beats from the first beat tile
+let matchTemplate: BlockMatch | null = null;
+let matches: BlockMatch[] = [];
+let matchBlockBeats = 0;
+let matchFirstWindow = 0;
+
+// Match last jumped to with Next Match, as an index into matches
+let currentMatch = -1;
+
+// Start time marked with the transport's Mark start button, waiting for Mark end
+let sectionMarkStart: number | null = null;
+
+// Windows selected for looping (shown while dragging, then looped), or null
+let loopSelection: WindowRange | null = null;
+
+// Drag in progress on the canvas: where it started, in client pixels and as a curve index
+let dragStart: { clientX: number; clientY: number; index: number } | null = null;
+let isDragSelecting = false;
+
+// Set when a drag ends on the canvas, so the click that follows does not seek
+let suppressClick = false;
+
+// Outline colors of a repetition search's template block and its matches
+const MATCH_TEMPLATE_COLOR = '#ffffff';
+const MATCH_COLOR = '#06d6a0';
+
+// Most cells along each side of the self-similarity matrix; longer tracks pool beats into larger cells
+const MAX_SIMILARITY_CELLS = 1024;
+
+// Outline colors of the hovered matrix cell's row and column blocks on the canvas
+const SIMILARITY_HOVER_COLORS = ['#4cc9f0', '#f72585'];
+
+// Pointer travel, in CSS pixels, that turns a press on the canvas into a drag
+const DRAG_THRESHOLD = 4;
+
+// Beat phase (window within the beat) under the pointer, or null when not hovering the canvas
+let hoverPhase: number | null = null;
+
+// Height of the colorbar strip below the visualization when the frame is shown, in CSS pixels
+const FRAME_COLORBAR_HEIGHT = 44;
+
+// Whether the shown analysis came from a session file whose audio is not loaded yet
+let sessionAwaitingAudio = false;
+
+// Resolution choices (samples per beat) for each beat subdivision radix
+const RESOLUTION_OPTIONS: Record<number, { value: number; label: string }[]> = {
+    2: [
+        { value: 64, label: '64 (Fast, coarse)' },
+        { value: 128, label: '128' },
+        { value: 256, label: '256 (Recommended)' },
+        { value: 512, label: '512' },
+        { value: 1024, label: '1024 (Slow, fine)' },
+        { value: 2048, label: '2048' },
+        { value: 4096, label: '4096' }
+    ],
+    3: [
+        { value: 27, label: '27 (Fast, coarse)' },
+        { value: 81, label: '81' },
+        { value: 243, label: '243 (Recommended)' },
+        { value: 729, label: '729 (Slow, fine)' },
+        { value: 2187, label: '2187' }
+    ]
 };
 
 // DOM elements
@@ -42,18 +184,67 @@ let fileInfo: HTMLElement;
 let fileName: HTMLElement;
 let fileDuration: HTMLElement;
 let changeFileBtn: HTMLButtonElement;
+let sessionStatus: HTMLElement;
+let openSessionBtn: HTMLButtonElement;
+let saveSessionBtn: HTMLButtonElement;
+let sessionFileInput: HTMLInputElement;
 let bpmInput: HTMLInputElement;
 let detectBpmButton: HTMLButtonElement;
 let samplesPerBeatInput: HTMLSelectElement;
+let beatsPerBarInput: HTMLSelectElement;
+let subdivisionRadixInput: HTMLSelectElement;
+let curveTypeInput: HTMLSelectElement;
+let colormapInput: HTMLSelectElement;
+let colorScalingInput: HTMLSelectElement;
+let normalizationPercentileInput: HTMLSelectElement;
+let dbFloorGroup: HTMLElement;
+let dbFloorInput: HTMLInputElement;
+let gammaGroup: HTMLElement;
+let gammaInput: HTMLInputElement;
+let customColormapInput: HTMLTextAreaElement;
+let showFrameInput: HTMLInputElement;
+let gridLevelInputs: Record<GridLevel, HTMLInputElement>;
+let gridColorInputs: Record<GridLevel, HTMLInputElement>;
+let hoverInspectorInput: HTMLInputElement;
+let highlightPhaseInput: HTMLInputElement;
 let windowSizeInput: HTMLSelectElement;
+let tempoMapInput: HTMLTextAreaElement;
+let tempoMapFileInput: HTMLInputElement;
+let importTempoMapBtn: HTMLButtonElement;
+let clearTempoMapBtn: HTMLButtonElement;
+let driftCorrectionInput: HTMLInputElement;
+let driftPanel: HTMLElement;
+let driftGraph: HTMLCanvasElement;
+let driftStats: HTMLElement;
+let driftViewCorrectedInput: HTMLInputElement;
+let driftViewFixedInput: HTMLInputElement;
 let zOrderOffsetInput: HTMLInputElement;
 let zOrderOffsetSlider: HTMLInputElement;
-let modeRgbInput: HTMLInputElement;
-let modeMonoInput: HTMLInputElement;
+let vizModeInputs: HTMLInputElement[];
+let channelSourceGroup: HTMLElement;
+let channelSourceInput: HTMLSelectElement;
 let frequencyCutoffs: HTMLElement;
+let monoFeatureGroup: HTMLElement;
+let monoFeatureInput: HTMLSelectElement;
+let rgbSourcesGroup: HTMLElement;
+let rgbSourceInputs: HTMLSelectElement[];
+let onsetOptions: HTMLElement;
+let onsetMethodInput: HTMLSelectElement;
+let showOnsetsInput: HTMLInputElement;
 let lowMidCutoffInput: HTMLInputElement;
 let midHighCutoffInput: HTMLInputElement;
+let spectralOptions: HTMLElement;
+let spectralBandsInput: HTMLTextAreaElement;
+let bandPresetInput: HTMLSelectElement;
+let loadBandPresetBtn: HTMLButtonElement;
+let windowFunctionInput: HTMLSelectElement;
 let processButton: HTMLButtonElement;
+let cacheStatus: HTMLElement;
+let clearCacheBtn: HTMLButtonElement;
+let exportPanel: HTMLElement;
+let exportSizeInput: HTMLSelectElement;
+let exportLegendInput: HTMLInputElement;
+let exportPngBtn: HTMLButtonElement;
 
 let floatingControls: HTMLElement;
 let playPauseButton: HTMLButtonElement;
@@ -63,6 +254,39 @@ let seekSlider: HTMLInputElement;
 let currentTimeDisplay: HTMLElement;
 let totalTimeDisplay: HTMLElement;
 let markerOverlay: HTMLCanvasElement;
+let frameOverlay: HTMLCanvasElement;
+let hoverTooltip: HTMLElement;
+let loopRow: HTMLElement;
+let loopLabel: HTMLElement;
+let clearLoopButton: HTMLButtonElement;
+let markSectionButton: HTMLButtonElement;
+let sectionsPanel: HTMLElement;
+let sectionList: HTMLElement;
+let addSectionFromLoopBtn: HTMLButtonElement;
+let importSectionsBtn: HTMLButtonElement;
+let sectionsFileInput: HTMLInputElement;
+let exportSectionsJsonBtn: HTMLButtonElement;
+let exportSectionsLabelsBtn: HTMLButtonElement;
+let detectSegmentsBtn: HTMLButtonElement;
+let segmentsToSectionsBtn: HTMLButtonElement;
+let segmentSummary: HTMLElement;
+let ssmResolutionInput: HTMLSelectElement;
+let foldLevelInput: HTMLSelectElement;
+let foldSpreadInput: HTMLSelectElement;
+let foldPanel: HTMLElement;
+let foldInfo: HTMLElement;
+let foldSpreadTitle: HTMLElement;
+let foldMeanCanvas: HTMLCanvasElement;
+let foldSpreadCanvas: HTMLCanvasElement;
+let matchLevelInput: HTMLSelectElement;
+let matchThresholdInput: HTMLInputElement;
+let nextMatchBtn: HTMLButtonElement;
+let clearMatchesBtn: HTMLButtonElement;
+let matchList: HTMLElement;
+let ssmPanel: HTMLElement;
+let ssmInfo: HTMLElement;
+let ssmCanvas: HTMLCanvasElement;
+let ssmOverlay: HTMLCanvasElement;
 
 // Modal elements
 let helpModal: HTMLElement;
@@ -91,22 +315,75 @@ export function init(): void {
     fileName = document.getElementById('fileName')!;
     fileDuration = document.getElementById('fileDuration')!;
     changeFileBtn = document.getElementById('changeFileBtn') as HTMLButtonElement;
+    sessionStatus = document.getElementById('sessionStatus')!;
+    openSessionBtn = document.getElementById('openSession') as HTMLButtonElement;
+    saveSessionBtn = document.getElementById('saveSession') as HTMLButtonElement;
+    sessionFileInput = document.getElementById('sessionFile') as HTMLInputElement;
     bpmInput = document.getElementById('bpm') as HTMLInputElement;
     detectBpmButton = document.getElementById('detectBpm') as HTMLButtonElement;
     samplesPerBeatInput = document.getElementById('samplesPerBeat') as HTMLSelectElement;
+    beatsPerBarInput = document.getElementById('beatsPerBar') as HTMLSelectElement;
+    subdivisionRadixInput = document.getElementById('subdivisionRadix') as HTMLSelectElement;
+    curveTypeInput = document.getElementById('curveType') as HTMLSelectElement;
+    colormapInput = document.getElementById('colormap') as HTMLSelectElement;
+    colorScalingInput = document.getElementById('colorScaling') as HTMLSelectElement;
+    normalizationPercentileInput = document.getElementById('normalizationPercentile') as HTMLSelectElement;
+    dbFloorGroup = document.getElementById('dbFloorGroup')!;
+    dbFloorInput = document.getElementById('dbFloor') as HTMLInputElement;
+    gammaGroup = document.getElementById('gammaGroup')!;
+    gammaInput = document.getElementById('gamma') as HTMLInputElement;
+    customColormapInput = document.getElementById('customColormap') as HTMLTextAreaElement;
+    showFrameInput = document.getElementById('showFrame') as HTMLInputElement;
+    gridLevelInputs = getGridInputs('');
+    gridColorInputs = getGridInputs('Color');
+    hoverInspectorInput = document.getElementById('hoverInspector') as HTMLInputElement;
+    highlightPhaseInput = document.getElementById('highlightPhase') as HTMLInputElement;
     windowSizeInput = document.getElementById('windowSize') as HTMLSelectElement;
+    tempoMapInput = document.getElementById('tempoMap') as HTMLTextAreaElement;
+    tempoMapFileInput = document.getElementById('tempoMapFile') as HTMLInputElement;
+    importTempoMapBtn = document.getElementById('importTempoMap') as HTMLButtonElement;
+    clearTempoMapBtn = document.getElementById('clearTempoMap') as HTMLButtonElement;
+    driftCorrectionInput = document.getElementById('driftCorrection') as HTMLInputElement;
+    driftPanel = document.getElementById('driftPanel')!;
+    driftGraph = document.getElementById('driftGraph') as HTMLCanvasElement;
+    driftStats = document.getElementById('driftStats')!;
+    driftViewCorrectedInput = document.getElementById('driftViewCorrected') as HTMLInputElement;
+    driftViewFixedInput = document.getElementById('driftViewFixed') as HTMLInputElement;
     zOrderOffsetInput = document.getElementById('zOrderOffset') as HTMLInputElement;
     zOrderOffsetSlider = document.getElementById('zOrderOffsetSlider') as HTMLInputElement;
-    modeRgbInput = document.getElementById('modeRgb') as HTMLInputElement;
-    modeMonoInput = document.getElementById('modeMono') as HTMLInputElement;
+    vizModeInputs = Array.from(document.querySelectorAll<HTMLInputElement>('input[name="vizMode"]'));
+    channelSourceGroup = document.getElementById('channelSourceGroup')!;
+    channelSourceInput = document.getElementById('channelSource') as HTMLSelectElement;
     frequencyCutoffs = document.getElementById('frequencyCutoffs')!;
+    monoFeatureGroup = document.getElementById('monoFeatureGroup')!;
+    monoFeatureInput = document.getElementById('monoFeature') as HTMLSelectElement;
+    rgbSourcesGroup = document.getElementById('rgbSourcesGroup')!;
+    rgbSourceInputs = ['rgbSourceRed', 'rgbSourceGreen', 'rgbSourceBlue']
+        .map(id => document.getElementById(id) as HTMLSelectElement);
+    onsetOptions = document.getElementById('onsetOptions')!;
+    onsetMethodInput = document.getElementById('onsetMethod') as HTMLSelectElement;
+    showOnsetsInput = document.getElementById('showOnsets') as HTMLInputElement;
     lowMidCutoffInput = document.getElementById('lowMidCutoff') as HTMLInputElement;
     midHighCutoffInput = document.getElementById('midHighCutoff') as HTMLInputElement;
+    spectralOptions = document.getElementById('spectralOptions')!;
+    spectralBandsInput = document.getElementById('spectralBands') as HTMLTextAreaElement;
+    bandPresetInput = document.getElementById('bandPreset') as HTMLSelectElement;
+    loadBandPresetBtn = document.getElementById('loadBandPreset') as HTMLButtonElement;
+    windowFunctionInput = document.getElementById('windowFunction') as HTMLSelectElement;
     processButton = document.getElementById('processButton') as HTMLButtonElement;
+    cacheStatus = document.getElementById('cacheStatus')!;
+    clearCacheBtn = document.getElementById('clearCache') as HTMLButtonElement;
+    exportPanel = document.getElementById('exportPanel')!;
+    exportSizeInput = document.getElementById('exportSize') as HTMLSelectElement;
+    exportLegendInput = document.getElementById('exportLegend') as HTMLInputElement;
+    exportPngBtn = document.getElementById('exportPng') as HTMLButtonElement;
 
     // Clear file input on page load to ensure it reflects actual state
     audioFileInput.value = '';
 
+    // Start the band list from the default preset
+    spectralBandsInput.value = formatBandsCSV(createBandPreset('octave'));
+
     // Playback control elements
     floatingControls = document.getElementById('floatingControls')!;
     playPauseButton = document.getElementById('playPauseButton') as HTMLButtonElement;
@@ -116,6 +393,39 @@ export function init(): void {
     currentTimeDisplay = document.getElementById('currentTime')!;
     totalTimeDisplay = document.getElementById('totalTime')!;
     markerOverlay = document.getElementById('markerOverlay') as HTMLCanvasElement;
+    frameOverlay = document.getElementById('frameOverlay') as HTMLCanvasElement;
+    hoverTooltip = document.getElementById('hoverTooltip')!;
+    loopRow = document.getElementById('loopRow')!;
+    loopLabel = document.getElementById('loopLabel')!;
+    clearLoopButton = document.getElementById('clearLoopButton') as HTMLButtonElement;
+    markSectionButton = document.getElementById('markSectionButton') as HTMLButtonElement;
+    sectionsPanel = document.getElementById('sectionsPanel')!;
+    sectionList = document.getElementById('sectionList')!;
+    addSectionFromLoopBtn = document.getElementById('addSectionFromLoop') as HTMLButtonElement;
+    importSectionsBtn = document.getElementById('importSections') as HTMLButtonElement;
+    sectionsFileInput = document.getElementById('sectionsFile') as HTMLInputElement;
+    exportSectionsJsonBtn = document.getElementById('exportSectionsJson') as HTMLButtonElement;
+    exportSectionsLabelsBtn = document.getElementById('exportSectionsLabels') as HTMLButtonElement;
+    detectSegmentsBtn = document.getElementById('detectSegments') as HTMLButtonElement;
+    segmentsToSectionsBtn = document.getElementById('segmentsToSections') as HTMLButtonElement;
+    segmentSummary = document.getElementById('segmentSummary')!;
+    ssmResolutionInput = document.getElementById('ssmResolution') as HTMLSelectElement;
+    foldLevelInput = document.getElementById('foldLevel') as HTMLSelectElement;
+    foldSpreadInput = document.getElementById('foldSpread') as HTMLSelectElement;
+    foldPanel = document.getElementById('foldPanel')!;
+    foldInfo = document.getElementById('foldInfo')!;
+    foldSpreadTitle = document.getElementById('foldSpreadTitle')!;
+    foldMeanCanvas = document.getElementById('foldMeanCanvas') as HTMLCanvasElement;
+    foldSpreadCanvas = document.getElementById('foldSpreadCanvas') as HTMLCanvasElement;
+    matchLevelInput = document.getElementById('matchLevel') as HTMLSelectElement;
+    matchThresholdInput = document.getElementById('matchThreshold') as HTMLInputElement;
+    nextMatchBtn = document.getElementById('nextMatch') as HTMLButtonElement;
+    clearMatchesBtn = document.getElementById('clearMatches') as HTMLButtonElement;
+    matchList = document.getElementById('matchList')!;
+    ssmPanel = document.getElementById('ssmPanel')!;
+    ssmInfo = document.getElementById('ssmInfo')!;
+    ssmCanvas = document.getElementById('ssmCanvas') as HTMLCanvasElement;
+    ssmOverlay = document.getElementById('ssmOverlay') as HTMLCanvasElement;
 
     // Override play/pause button updates to use icons instead of text
     setupPlayPauseButtonObserver();
@@ -132,6 +442,8 @@ export function init(): void {
     // Make canvas clickable
     canvas.style.cursor = 'pointer';
 
+    updateCacheStatus();
+
     // Show help modal on first load
     showHelpModal();
 }
@@ -188,20 +500,91 @@ function setupEventListeners(): void {
     fileDropZone.addEventListener('dragleave', handleDragLeave);
     fileDropZone.addEventListener('drop', handleDrop);
 
+    // Session files
+    openSessionBtn.addEventListener('click', () => sessionFileInput.click());
+    sessionFileInput.addEventListener('change', handleSessionFileChange);
+    saveSessionBtn.addEventListener('click', handleSaveSessionClick);
+
     // Controls
     detectBpmButton.addEventListener('click', handleDetectBpmClick);
     processButton.addEventListener('click', handleProcessClick);
     zOrderOffsetInput.addEventListener('input', handleZOrderOffsetInputChange);
     zOrderOffsetSlider.addEventListener('input', handleZOrderOffsetSliderChange);
-    modeRgbInput.addEventListener('change', handleModeChange);
-    modeMonoInput.addEventListener('change', handleModeChange);
+    curveTypeInput.addEventListener('change', handleLayoutChange);
+    beatsPerBarInput.addEventListener('change', handleLayoutChange);
+    for (const input of [colormapInput, colorScalingInput, normalizationPercentileInput, dbFloorInput, gammaInput, customColormapInput]) {
+        input.addEventListener('change', handleColorChange);
+    }
+    showFrameInput.addEventListener('change', drawFrameOverlay);
+    for (const input of [...Object.values(gridLevelInputs), ...Object.values(gridColorInputs)]) {
+        input.addEventListener('input', updateMarkerWrapper);
+    }
+    subdivisionRadixInput.addEventListener('change', handleSubdivisionChange);
+    for (const input of vizModeInputs) {
+        input.addEventListener('change', handleModeChange);
+        input.addEventListener('change', handleAnalysisParameterChange);
+    }
+    importTempoMapBtn.addEventListener('click', () => tempoMapFileInput.click());
+    tempoMapFileInput.addEventListener('change', handleTempoMapFileChange);
+    clearTempoMapBtn.addEventListener('click', () => { tempoMapInput.value = ''; });
+    bpmInput.addEventListener('input', handleAnalysisParameterChange);
+    samplesPerBeatInput.addEventListener('change', handleAnalysisParameterChange);
+    subdivisionRadixInput.addEventListener('change', handleAnalysisParameterChange);
+    windowSizeInput.addEventListener('change', handleAnalysisParameterChange);
+    tempoMapInput.addEventListener('input', handleAnalysisParameterChange);
+    driftCorrectionInput.addEventListener('change', handleAnalysisParameterChange);
+    channelSourceInput.addEventListener('change', handleAnalysisParameterChange);
+    monoFeatureInput.addEventListener('change', handleAnalysisParameterChange);
+    for (const input of rgbSourceInputs) {
+        input.addEventListener('change', handleAnalysisParameterChange);
+    }
+    onsetMethodInput.addEventListener('change', handleAnalysisParameterChange);
+    showOnsetsInput.addEventListener('change', updateMarkerWrapper);
+    lowMidCutoffInput.addEventListener('input', handleAnalysisParameterChange);
+    midHighCutoffInput.addEventListener('input', handleAnalysisParameterChange);
+    spectralBandsInput.addEventListener('input', handleAnalysisParameterChange);
+    windowFunctionInput.addEventListener('change', handleAnalysisParameterChange);
+    loadBandPresetBtn.addEventListener('click', handleLoadBandPresetClick);
+    driftViewCorrectedInput.addEventListener('change', handleDriftViewChange);
+    driftViewFixedInput.addEventListener('change', handleDriftViewChange);
     lowMidCutoffInput.addEventListener('input', updateFilterDisplays);
     midHighCutoffInput.addEventListener('input', updateFilterDisplays);
+    exportPngBtn.addEventListener('click', handleExportClick);
+    clearCacheBtn.addEventListener('click', handleClearCacheClick);
 
     // Playback
     playPauseButton.addEventListener('click', handlePlayPauseClick);
     seekSlider.addEventListener('input', handleSeekChange);
     canvas.addEventListener('click', handleCanvasClick);
+    canvas.addEventListener('mousemove', handleCanvasHover);
+    canvas.addEventListener('mousedown', handleCanvasMouseDown);
+    window.addEventListener('mousemove', handleDragMove);
+    window.addEventListener('mouseup', handleDragEnd);
+    clearLoopButton.addEventListener('click', () => clearLoop(true));
+    markSectionButton.addEventListener('click', handleMarkSectionClick);
+    addSectionFromLoopBtn.addEventListener('click', () => {
+        if (playbackState.loop) addSection(playbackState.loop.start, playbackState.loop.end);
+    });
+    importSectionsBtn.addEventListener('click', () => sectionsFileInput.click());
+    sectionsFileInput.addEventListener('change', handleSectionsFileChange);
+    exportSectionsJsonBtn.addEventListener('click', () => exportSections('json'));
+    exportSectionsLabelsBtn.addEventListener('click', () => exportSections('labels'));
+    detectSegmentsBtn.addEventListener('click', handleDetectSegmentsClick);
+    segmentsToSectionsBtn.addEventListener('click', handleSegmentsToSectionsClick);
+    ssmResolutionInput.addEventListener('change', updateSimilarityPanel);
+    foldLevelInput.addEventListener('change', updateFoldPanel);
+    foldSpreadInput.addEventListener('change', updateFoldPanel);
+    matchLevelInput.addEventListener('change', updateMatches);
+    matchThresholdInput.addEventListener('change', updateMatches);
+    nextMatchBtn.addEventListener('click', handleNextMatchClick);
+    clearMatchesBtn.addEventListener('click', () => setMatchTemplate(null));
+    ssmOverlay.addEventListener('mousemove', handleSimilarityHover);
+    ssmOverlay.addEventListener('mouseleave', () => setSimilarityHover(null));
+    ssmOverlay.addEventListener('click', handleSimilarityClick);
+    renderSectionList();
+    canvas.addEventListener('mouseleave', handleCanvasLeave);
+    hoverInspectorInput.addEventListener('change', handleCanvasLeave);
+    highlightPhaseInput.addEventListener('change', handleCanvasLeave);
     window.addEventListener('resize', handleWindowResize);
 
     // Modal event listeners
@@ -220,6 +603,12 @@ function setupEventListeners(): void {
  * Handle change file button click
  */
 function handleChangeFile(): void {
+    cancelProcessing();
+    clearLoop(false);
+    setSections([]);
+    setSegments(null);
+    setMatchTemplate(null);
+
     // Reset file info display
     fileInfo.style.display = 'none';
     fileDropZone.style.display = 'block';
@@ -227,8 +616,15 @@ function handleChangeFile(): void {
 
     // Clear audio state
     state.audioBuffer = null;
+    state.audioFingerprint = null;
     state.cachedPowers = null;
     state.cachedRGBPowers = null;
+    state.cachedBalance = null;
+    state.cachedBandPowers = null;
+    state.cachedChroma = null;
+    state.driftComparison = null;
+    driftPanel.style.display = 'none';
+    exportPanel.style.display = 'none';
     floatingControls.style.display = 'none';
     canvasContainer.style.display = 'none';
     emptyState.style.display = 'flex';
@@ -237,6 +633,7 @@ function handleChangeFile(): void {
     processButton.disabled = true;
     detectBpmButton.disabled = true;
     playPauseButton.disabled = true;
+    saveSessionBtn.disabled = true;
 
     // Reset info badges
     const badges = calculatedInfo.querySelectorAll('.info-badge');
@@ -278,7 +675,21 @@ async function handleAudioFileChange(e: Event): Promise<void> {
     const file = audioFileInput.files?.[0];
     if (!file) return;
 
-    // Immediately disable all controls
+    // Hash before decoding, which detaches the buffer
+    const arrayBuffer = await file.arrayBuffer();
+    const sha256 = await computeContentHash(arrayBuffer);
+
+    // A loaded session keeps its analysis if this is the audio it was made from
+    const reattach = sessionAwaitingAudio && state.audioFingerprint?.sha256 === sha256;
+    if (sessionAwaitingAudio && !reattach &&
+        !confirm(`${file.name} is not the audio this session was made from (${state.audioFingerprint!.name}). Discard the session?`)) {
+        audioFileInput.value = '';
+        return;
+    }
+    setSessionAwaitingAudio(false);
+
+    // Cancel any analysis of the previous file and disable all controls
+    cancelProcessing();
     processButton.disabled = true;
     detectBpmButton.disabled = true;
     if (playbackState.isPlaying && state.audioContext) {
@@ -291,29 +702,48 @@ async function handleAudioFileChange(e: Event): Promise<void> {
 
     // Update file info display
     fileName.textContent = file.name;
+    state.trackName = file.name;
     fileDropZone.style.display = 'none';
     fileInfo.style.display = 'block';
 
-    // Show loading in info badges
     const badges = calculatedInfo.querySelectorAll('.info-badge');
-    badges[0].textContent = 'Loading...';
-    badges[1].textContent = '';
+    if (!reattach) {
+        // Show loading in info badges
+        badges[0].textContent = 'Loading...';
+        badges[1].textContent = '';
 
-    // Clear previous data
-    state.audioBuffer = null;
-    state.cachedPowers = null;
-    state.cachedRGBPowers = null;
-    floatingControls.style.display = 'none';
-    emptyState.style.display = 'flex';
-    canvasContainer.style.display = 'none';
+        // Clear previous data
+        state.audioBuffer = null;
+        state.cachedPowers = null;
+        state.cachedRGBPowers = null;
+        state.cachedBalance = null;
+        state.cachedBandPowers = null;
+        state.cachedChroma = null;
+        state.driftComparison = null;
+        driftPanel.style.display = 'none';
+        exportPanel.style.display = 'none';
+        sectionsPanel.style.display = 'none';
+        setSections([]);
+        setSegments(null);
+        setMatchTemplate(null);
+        saveSessionBtn.disabled = true;
+        floatingControls.style.display = 'none';
+        emptyState.style.display = 'flex';
+        canvasContainer.style.display = 'none';
+    }
 
     if (!state.audioContext) {
         state.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
     }
 
     try {
-        const arrayBuffer = await file.arrayBuffer();
         state.audioBuffer = await state.audioContext.decodeAudioData(arrayBuffer);
+        state.audioFingerprint = {
+            name: file.name,
+            size: file.size,
+            duration: state.audioBuffer.duration,
+            sha256
+        };
 
         // Update file duration
         fileDuration.textContent = formatTime(state.audioBuffer.duration);
@@ -322,6 +752,12 @@ async function handleAudioFileChange(e: Event): Promise<void> {
         processButton.disabled = false;
         detectBpmButton.disabled = false;
 
+        // The session's analysis is already on screen; only playback was missing
+        if (reattach) {
+            showPlaybackControls();
+            return;
+        }
+
         // Reset info display
         badges[0].textContent = 'Window: —';
         badges[1].textContent = 'Canvas: —';
@@ -400,7 +836,7 @@ async function handleDetectBpmClick(): Promise<void> {
  * Handle process button click
  */
 function handleProcessClick(): void {
-    if (state.audioBuffer && !state.isProcessing) {
+    if (state.audioBuffer) {
         if (playbackState.isPlaying) {
             pausePlayback({
                 audioContext: state.audioContext!,
@@ -433,17 +869,26 @@ function handleZOrderOffsetSliderChange(): void {
     updateVisualizationWithOffset();
 }
 
+/**
+ * Convert the offset input (seconds) to a window offset using the cached tempo map
+ * @returns Z-order offset in windows
+ */
+function getZOrderOffset(): number {
+    const zOrderOffsetSeconds = parseFloat(zOrderOffsetInput.value);
+    return Math.round(timeToBeat(zOrderOffsetSeconds, state.cachedTempoMap) * state.cachedSamplesPerBeat);
+}
+
 /**
  * Update visualization with current Z-order offset - instant redraw
  */
 function updateVisualizationWithOffset(): void {
-    if ((state.cachedPowers || state.cachedRGBPowers) && !state.isProcessing) {
-        const zOrderOffsetSeconds = parseFloat(zOrderOffsetInput.value);
-        const bpm = parseFloat(bpmInput.value);
-        const beatsPerSecond = bpm / 60;
-        const windowsPerSecond = beatsPerSecond * state.cachedSamplesPerBeat;
-        const zOrderOffset = Math.round(zOrderOffsetSeconds * windowsPerSecond);
-        redrawCanvas(state, canvas, zOrderOffset);
+    if (hasCachedAnalysis(state) && !state.isProcessing) {
+        redrawCanvas(state, canvas, getZOrderOffset());
+        drawFrameOverlay();
+        // Blocks of a repetition search are tiles of the curve, which the offset moves
+        if (matchTemplateWindow !== null) updateMatches();
+        updateSimilarityPanel();
+        updateFoldPanel();
 
         if (state.audioBuffer) {
             updateMarkerWrapper();
@@ -452,11 +897,223 @@ function updateVisualizationWithOffset(): void {
 }
 
 /**
- * Handle visualization mode change
+ * Create the curve selected in the UI for the given beat resolution
+ * @param samplesPerBeat - Windows per beat
+ * @param subdivisionRadix - Radix the beat is subdivided by
+ * @returns Configured curve
+ */
+function createSelectedCurve(samplesPerBeat: number, subdivisionRadix: number): SpaceFillingCurve {
+    return createCurve(curveTypeInput.value as CurveType, {
+        samplesPerBeat,
+        beatsPerBar: parseInt(beatsPerBarInput.value),
+        subdivisionRadix
+    });
+}
+
+/**
+ * Handle curve layout or beats-per-bar change - resize canvas and redraw from cached data
+ */
+function handleLayoutChange(): void {
+    if (!hasCachedAnalysis(state) || state.isProcessing) return;
+
+    state.curve = createSelectedCurve(state.cachedSamplesPerBeat, state.cachedSubdivisionRadix);
+
+    resizeCanvasToCache();
+    updateVisualizationWithOffset();
+}
+
+/**
+ * Handle colormap, scaling or normalization change - redraw from cached data
+ */
+function handleColorChange(): void {
+    updateColorSettings();
+    updateVisualizationWithOffset();
+}
+
+/**
+ * Read the color inputs into the state and show the inputs of the selected scaling and colormap
+ * Invalid numbers keep the previous value; an invalid custom gradient keeps the previous gradient.
+ */
+function updateColorSettings(): void {
+    const colormap = colormapInput.value as ColormapName;
+    const scaling = colorScalingInput.value as ColorScaling;
+    dbFloorGroup.style.display = scaling === 'db' ? 'flex' : 'none';
+    gammaGroup.style.display = scaling === 'gamma' ? 'flex' : 'none';
+    customColormapInput.style.display = colormap === 'custom' ? 'block' : 'none';
+
+    const previous = state.colorSettings;
+    let customColormap = previous.customColormap;
+    if (colormap === 'custom') {
+        try {
+            customColormap = parseColormapStops(customColormapInput.value);
+        } catch (error) {
+            alert(`Invalid gradient: ${(error as Error).message}`);
+        }
+    }
+
+    const dbFloor = parseFloat(dbFloorInput.value);
+    const gamma = parseFloat(gammaInput.value);
+    state.colorSettings = {
+        colormap,
+        customColormap,
+        scaling,
+        dbFloor: dbFloor < 0 ? dbFloor : previous.dbFloor,
+        gamma: gamma > 0 ? gamma : previous.gamma,
+        percentile: parseFloat(normalizationPercentileInput.value)
+    };
+}
+
+/**
+ * Set the color inputs from saved color settings
+ * @param colorSettings - Color settings
+ */
+function applyColorSettings(colorSettings: ColorSettings): void {
+    colormapInput.value = colorSettings.colormap;
+    colorScalingInput.value = colorSettings.scaling;
+    normalizationPercentileInput.value = `${colorSettings.percentile}`;
+    dbFloorInput.value = `${colorSettings.dbFloor}`;
+    gammaInput.value = `${colorSettings.gamma}`;
+    customColormapInput.value = formatColormapStops(colorSettings.customColormap);
+    state.colorSettings = colorSettings;
+    updateColorSettings();
+}
+
+/**
+ * Get the number of windows in the cached analysis
+ * @returns Window count
+ */
+function getCachedWindowCount(): number {
+    return state.cachedPowers?.length
+        ?? state.cachedRGBPowers?.low.length
+        ?? state.cachedBandPowers![0].length;
+}
+
+/**
+ * Get the bar blocks and colorbar maximum of the cached analysis for the frame
+ * @param zOrderOffset - Z-order offset in windows
+ * @returns Frame contents
+ */
+function getFrameContent(zOrderOffset: number): FrameContent {
+    const { cachedCanvasWidth: width, cachedCanvasHeight: height } = state;
+    return {
+        blocks: computeBarBlocks(
+            getCoordinateLUT(state.curve, width, height),
+            width,
+            getCachedWindowCount(),
+            zOrderOffset,
+            state.cachedSamplesPerBeat * parseInt(beatsPerBarInput.value)
+        ),
+        normalizationMax: state.cachedPowers
+            ? getNormalizationMax(state.cachedPowers, state.maxPowerMono, state.colorSettings.percentile)
+            : state.maxPowerMono
+    };
+}
+
+/**
+ * Draw the frame overlay: bar-range labels over the visualization and the colorbar below it
+ * Hidden while processing or when the frame is turned off.
+ */
+function drawFrameOverlay(): void {
+    const show = showFrameInput.checked && hasCachedAnalysis(state) && state.cachedSettings !== null && !state.isProcessing;
+    canvasContainer.classList.toggle('framed', show);
+    frameOverlay.style.display = show ? 'block' : 'none';
+    if (!show || canvas.clientWidth === 0) return;
+
+    // Cover the visualization (inside its border) and the colorbar strip below it, at device resolution
+    const dpr = window.devicePixelRatio || 1;
+    const displayWidth = canvas.clientWidth;
+    const displayHeight = canvas.clientHeight + FRAME_COLORBAR_HEIGHT;
+    frameOverlay.style.left = `${canvas.offsetLeft + canvas.clientLeft}px`;
+    frameOverlay.style.top = `${canvas.offsetTop + canvas.clientTop}px`;
+    frameOverlay.style.width = `${displayWidth}px`;
+    frameOverlay.style.height = `${displayHeight}px`;
+    frameOverlay.width = Math.round(displayWidth * dpr);
+    frameOverlay.height = Math.round(displayHeight * dpr);
+
+    const frameCtx = frameOverlay.getContext('2d');
+    if (!frameCtx) return;
+    frameCtx.clearRect(0, 0, frameOverlay.width, frameOverlay.height);
+
+    const frame = getFrameContent(getZOrderOffset());
+    drawBarBlocks(frameCtx, frame.blocks, 0, 0, (displayWidth * dpr) / state.cachedCanvasWidth, 11 * dpr);
+
+    const settings = state.cachedSettings!;
+    const colorbarY = (canvas.clientHeight + 8) * dpr;
+    const drawn = drawColorbar(
+        frameCtx, settings, state.colorSettings, frame.normalizationMax,
+        0, colorbarY, frameOverlay.width, (FRAME_COLORBAR_HEIGHT - 10) * dpr
+    );
+    if (!drawn) {
+        drawColorLegend(frameCtx, settings, state.colorSettings, 0, colorbarY, frameOverlay.width, 14 * dpr);
+    }
+}
+
+/**
+ * Resize the canvas and overlay to fit the cached windows on the current curve
+ */
+function resizeCanvasToCache(): void {
+    const totalWindows = getCachedWindowCount();
+    const { width, height } = state.curve.getCanvasSize(totalWindows);
+    state.cachedCanvasWidth = width;
+    state.cachedCanvasHeight = height;
+    canvas.width = width;
+    canvas.height = height;
+
+    const badges = calculatedInfo.querySelectorAll('.info-badge');
+    badges[1].textContent = `Canvas: ${width}×${height}`;
+
+    setupOverlayCanvas(canvas, markerOverlay);
+}
+
+/**
+ * Handle beat subdivision change - offer resolutions that are powers of the new radix
+ * The cached data keeps its own subdivision until the audio is reprocessed.
+ */
+function handleSubdivisionChange(): void {
+    const options = RESOLUTION_OPTIONS[parseInt(subdivisionRadixInput.value)];
+    const current = parseInt(samplesPerBeatInput.value);
+
+    // Keep the closest resolution (on a log scale) to the current selection
+    let closest = options[0].value;
+    for (const option of options) {
+        if (Math.abs(Math.log(option.value / current)) < Math.abs(Math.log(closest / current))) {
+            closest = option.value;
+        }
+    }
+
+    samplesPerBeatInput.innerHTML = '';
+    for (const option of options) {
+        samplesPerBeatInput.add(new Option(option.label, option.value.toString(), false, option.value === closest));
+    }
+}
+
+/**
+ * Get the visualization mode selected in the UI
+ * @returns Selected mode
+ */
+function getSelectedVizMode(): VizMode {
+    return (vizModeInputs.find(input => input.checked)?.value ?? 'rgb') as VizMode;
+}
+
+/**
+ * Handle visualization mode change - show the options that apply to the mode
  */
 function handleModeChange(): void {
-    const isRGB = modeRgbInput.checked;
-    frequencyCutoffs.style.display = isRGB ? 'block' : 'none';
+    const vizMode = getSelectedVizMode();
+    frequencyCutoffs.style.display = vizMode === 'rgb' ? 'block' : 'none';
+    rgbSourcesGroup.style.display = vizMode === 'rgb' ? 'block' : 'none';
+    monoFeatureGroup.style.display = vizMode === 'mono' ? 'block' : 'none';
+    onsetOptions.style.display = vizMode === 'onset' ? 'block' : 'none';
+    spectralOptions.style.display = vizMode === 'bands' ? 'block' : 'none';
+    channelSourceGroup.style.display = vizMode === 'balance' ? 'none' : 'block';
+}
+
+/**
+ * Handle load band preset click - replace the band list with the selected preset
+ */
+function handleLoadBandPresetClick(): void {
+    spectralBandsInput.value = formatBandsCSV(createBandPreset(bandPresetInput.value as SpectralBandPreset));
+    handleAnalysisParameterChange();
 }
 
 /**
@@ -475,7 +1132,7 @@ function updateFilterDisplays(): void {
  * Handle play/pause button click
  */
 function handlePlayPauseClick(): void {
-    if (!state.audioBuffer || (!state.cachedPowers && !state.cachedRGBPowers)) return;
+    if (!state.audioBuffer || !hasCachedAnalysis(state)) return;
 
     if (playbackState.isPlaying) {
         pausePlayback({
@@ -518,25 +1175,24 @@ function handleSeekChange(e: Event): void {
  * Handle canvas click - seek to clicked position
  */
 function handleCanvasClick(e: MouseEvent): void {
-    if (!state.audioBuffer || (!state.cachedPowers && !state.cachedRGBPowers)) return;
-
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    const canvasX = (e.clientX - rect.left) * scaleX;
-    const canvasY = (e.clientY - rect.top) * scaleY;
+    if (suppressClick) {
+        suppressClick = false;
+        return;
+    }
+    if (!state.audioBuffer || !hasCachedAnalysis(state)) return;
 
-    const zOrderOffsetSeconds = parseFloat(zOrderOffsetInput.value);
-    const bpm = parseFloat(bpmInput.value);
-    const beatsPerSecond = bpm / 60;
-    const windowsPerSecond = beatsPerSecond * state.cachedSamplesPerBeat;
-    const zOrderOffset = Math.round(zOrderOffsetSeconds * windowsPerSecond);
+    const { x: canvasX, y: canvasY } = getCanvasPoint(e);
+    if (e.shiftKey) {
+        const window = state.curve.coordinatesToIndex(Math.floor(canvasX), Math.floor(canvasY)) - getZOrderOffset();
+        if (window >= 0 && window < getCachedWindowCount()) setMatchTemplate(window);
+        return;
+    }
 
     const time = getTimeForCanvasClick(canvasX, canvasY, {
-        bpm: bpm,
-        sampleRate: state.audioBuffer.sampleRate,
+        tempoMap: state.cachedTempoMap,
         cachedSamplesPerBeat: state.cachedSamplesPerBeat,
-        zOrderOffset: zOrderOffset,
+        zOrderOffset: getZOrderOffset(),
+        curve: state.curve,
         audioDuration: state.audioBuffer.duration
     });
 
@@ -552,288 +1208,1795 @@ function handleCanvasClick(e: MouseEvent): void {
 }
 
 /**
- * Handle window resize
+ * Convert a mouse position to canvas pixel coordinates
+ * @param e - Mouse event over the canvas
+ * @returns Canvas coordinates (fractional)
  */
-function handleWindowResize(): void {
-    if (state.cachedCanvasWidth && floatingControls.style.display === 'block') {
-        setupOverlayCanvas(canvas, markerOverlay);
-        updateMarkerWrapper();
-    }
+function getCanvasPoint(e: MouseEvent): Coordinates {
+    const rect = canvas.getBoundingClientRect();
+    return {
+        x: (e.clientX - rect.left) * (canvas.width / rect.width),
+        y: (e.clientY - rect.top) * (canvas.height / rect.height)
+    };
 }
 
 /**
- * Wrapper for updateMarker with proper parameters
+ * Handle mouse movement over the canvas - show what the window under the pointer holds
+ * @param e - Mouse event
  */
-function updateMarkerWrapper(): void {
-    if (!state.audioBuffer || !state.audioContext) return;
-
-    const zOrderOffsetSeconds = parseFloat(zOrderOffsetInput.value);
-    const bpm = parseFloat(bpmInput.value);
-    const beatsPerSecond = bpm / 60;
-    const windowsPerSecond = beatsPerSecond * state.cachedSamplesPerBeat;
-    const zOrderOffset = Math.round(zOrderOffsetSeconds * windowsPerSecond);
+function handleCanvasHover(e: MouseEvent): void {
+    if (!hoverInspectorInput.checked || !hasCachedAnalysis(state) || state.isProcessing) return;
+
+    const { x, y } = getCanvasPoint(e);
+    const zOrderOffset = getZOrderOffset();
+    const window = state.curve.coordinatesToIndex(Math.floor(x), Math.floor(y)) - zOrderOffset;
+    if (window < 0 || window >= getCachedWindowCount()) {
+        handleCanvasLeave();
+        return;
+    }
 
-    const time = updateMarker({
-        audioBuffer: state.audioBuffer,
-        audioContext: state.audioContext,
-        canvas: canvas,
-        markerOverlay: markerOverlay,
-        cachedCanvasWidth: state.cachedCanvasWidth,
-        cachedCanvasHeight: state.cachedCanvasHeight,
-        seekSlider: seekSlider,
-        onGetPosition: (t: number) => getCanvasPositionForTime(t, {
-            bpm: bpm,
-            sampleRate: state.audioBuffer!.sampleRate,
-            cachedSamplesPerBeat: state.cachedSamplesPerBeat,
-            cachedCanvasWidth: state.cachedCanvasWidth,
-            cachedCanvasHeight: state.cachedCanvasHeight,
-            zOrderOffset: zOrderOffset,
-            audioBuffer: state.audioBuffer
-        }),
-        onPausePlayback: () => pausePlayback({
-            audioContext: state.audioContext!,
-            playPauseButton: playPauseButton
-        })
+    // Same inverse mapping as a click, so the time shown is where a click would seek to
+    const time = getTimeForCanvasClick(x, y, {
+        tempoMap: state.cachedTempoMap,
+        cachedSamplesPerBeat: state.cachedSamplesPerBeat,
+        zOrderOffset,
+        curve: state.curve,
+        audioDuration: state.audioBuffer?.duration ?? state.audioFingerprint?.duration ?? Infinity
     });
+    const position = formatMusicalPosition(window, zOrderOffset, state.cachedSamplesPerBeat, parseInt(beatsPerBarInput.value));
+
+    hoverTooltip.replaceChildren();
+    const addLine = (text: string, className?: string) => {
+        const line = document.createElement('div');
+        line.textContent = text;
+        if (className) line.className = className;
+        hoverTooltip.appendChild(line);
+    };
+    addLine(`${time !== null ? formatPreciseTime(time) : '–'} • Bar ${position}`, 'hover-tooltip-title');
+    addLine(`Window ${window}`);
+    for (const value of getWindowValues(state, window)) {
+        const normalized = value.normalized !== null ? ` (${Math.round(value.normalized * 100)}%)` : '';
+        addLine(`${value.label}: ${formatWindowValue(value.raw)}${normalized}`);
+    }
 
-    // Update time display
-    currentTimeDisplay.textContent = formatTime(time);
-    totalTimeDisplay.textContent = formatTime(state.audioBuffer.duration);
-
-    // Continue animation loop if playing
-    if (playbackState.isPlaying) {
-        playbackState.animationFrameId = requestAnimationFrame(updateMarkerWrapper);
+    // Keep the tooltip inside the container, flipping it to the left of the pointer near the right edge
+    const containerRect = canvasContainer.getBoundingClientRect();
+    hoverTooltip.style.display = 'block';
+    const left = e.clientX - containerRect.left + 14;
+    const flip = left + hoverTooltip.offsetWidth > containerRect.width;
+    hoverTooltip.style.left = `${flip ? left - hoverTooltip.offsetWidth - 28 : left}px`;
+    hoverTooltip.style.top = `${e.clientY - containerRect.top + 14}px`;
+
+    const phase = highlightPhaseInput.checked ? (window + zOrderOffset) % state.cachedSamplesPerBeat : null;
+    if (phase !== hoverPhase) {
+        hoverPhase = phase;
+        updateMarkerWrapper();
     }
 }
 
 /**
- * Main audio processing function
+ * Handle a press on the canvas - remember it as the start of a possible loop drag
+ * @param e - Mouse event
  */
-async function processAudio(): Promise<void> {
-    if (state.isProcessing || !state.audioBuffer) return;
-
-    state.isProcessing = true;
-    emptyState.style.display = 'none';
-    canvasContainer.style.display = 'flex';
-    canvas.style.display = '';
-    progressContainer.classList.add('active');
-    progressFill.style.width = '0%';
-    progressText.textContent = '0%';
-
-    const bpm = parseFloat(bpmInput.value);
-    const samplesPerBeat = parseInt(samplesPerBeatInput.value);
-    const windowSize = parseInt(windowSizeInput.value);
-    const zOrderOffsetSeconds = parseFloat(zOrderOffsetInput.value);
-    const vizMode = modeRgbInput.checked ? 'rgb' : 'mono';
-
-    const sampleRate = state.audioBuffer.sampleRate;
+function handleCanvasMouseDown(e: MouseEvent): void {
+    suppressClick = false;
+    if (e.button !== 0 || !state.audioBuffer || !hasCachedAnalysis(state) || state.isProcessing) return;
 
-    // Apply frequency filtering if in RGB mode
-    let audioData: Float32Array | undefined;
-    let filteredBands: FilteredBands | undefined;
+    const { x, y } = getCanvasPoint(e);
+    dragStart = { clientX: e.clientX, clientY: e.clientY, index: state.curve.coordinatesToIndex(Math.floor(x), Math.floor(y)) };
+    isDragSelecting = false;
+}
 
-    if (vizMode === 'rgb') {
-        const lowMidCutoff = parseFloat(lowMidCutoffInput.value);
-        const midHighCutoff = parseFloat(midHighCutoffInput.value);
+/**
+ * Handle pointer movement during a drag - preview the snapped loop region
+ * @param e - Mouse event
+ */
+function handleDragMove(e: MouseEvent): void {
+    if (!dragStart) return;
+    if (!isDragSelecting && Math.hypot(e.clientX - dragStart.clientX, e.clientY - dragStart.clientY) < DRAG_THRESHOLD) return;
+    isDragSelecting = true;
+
+    // Clamp to the canvas so dragging past its edge selects up to the edge
+    const { x, y } = getCanvasPoint(e);
+    const canvasX = Math.max(0, Math.min(state.cachedCanvasWidth - 1, Math.floor(x)));
+    const canvasY = Math.max(0, Math.min(state.cachedCanvasHeight - 1, Math.floor(y)));
+    loopSelection = snapLoopRegion(
+        dragStart.index,
+        state.curve.coordinatesToIndex(canvasX, canvasY),
+        state.cachedSamplesPerBeat,
+        getZOrderOffset(),
+        getCachedWindowCount()
+    );
+    updateMarkerWrapper();
+}
 
-        progressText.textContent = 'Filtering...';
-        filteredBands = await applyFrequencyFiltering(state.audioBuffer, lowMidCutoff, midHighCutoff);
-        progressText.textContent = '0%';
+/**
+ * Handle the end of a drag - loop the selected region
+ */
+function handleDragEnd(): void {
+    if (!dragStart) return;
+    const wasSelecting = isDragSelecting;
+    dragStart = null;
+    isDragSelecting = false;
+    if (!wasSelecting) return;
+
+    suppressClick = true;
+    if (loopSelection) {
+        startLoop(loopSelection);
     } else {
-        audioData = state.audioBuffer.getChannelData(0);
+        clearLoop(true);
     }
+}
 
-    // Calculate window interval
-    const beatsPerSecond = bpm / 60;
-    const windowsPerSecond = beatsPerSecond * samplesPerBeat;
-    const windowIntervalSeconds = 1 / windowsPerSecond;
-    const windowIntervalSamples = windowIntervalSeconds * sampleRate;
-
-    // Calculate z-order offset in windows
-    const zOrderOffset = Math.round(zOrderOffsetSeconds * windowsPerSecond);
-
-    // Calculate number of windows
-    const audioLength = vizMode === 'rgb' ? filteredBands!.low.length : audioData!.length;
-    const totalWindows = Math.floor(audioLength / windowIntervalSamples);
+/**
+ * Loop a region of windows and start playing it from the top
+ * @param region - Windows to loop
+ */
+function startLoop(region: WindowRange): void {
+    if (!state.audioBuffer) return;
 
-    // Calculate canvas dimensions by finding actual max x and y from Z-order curve
-    let maxX = 0;
-    let maxY = 0;
-    for (let i = 0; i < totalWindows; i++) {
-        const { x, y } = getZOrderCoordinates(i, 0);
-        if (x > maxX) maxX = x;
-        if (y > maxY) maxY = y;
+    const { cachedSamplesPerBeat: samplesPerBeat, cachedTempoMap: tempoMap } = state;
+    const start = Math.max(0, beatToTime(region.firstWindow / samplesPerBeat, tempoMap));
+    const end = Math.min(state.audioBuffer.duration, beatToTime(region.endWindow / samplesPerBeat, tempoMap));
+    if (end <= start) {
+        clearLoop(true);
+        return;
     }
-    const canvasWidth = maxX + 1;
-    const canvasHeight = maxY + 1;
 
-    // Update info badges
-    const badges = calculatedInfo.querySelectorAll('.info-badge');
-    badges[0].textContent = `Window: ${(windowIntervalSeconds * 1000).toFixed(2)} ms`;
-    badges[1].textContent = `Canvas: ${canvasWidth}×${canvasHeight}`;
-
-    // Setup canvas
-    canvas.width = canvasWidth;
-    canvas.height = canvasHeight;
+    loopSelection = region;
+    playbackState.loop = { start, end };
+    const beatsPerBar = parseInt(beatsPerBarInput.value);
+    const zOrderOffset = getZOrderOffset();
+    loopLabel.textContent = `Loop ${formatMusicalPosition(region.firstWindow, zOrderOffset, samplesPerBeat, beatsPerBar)}`
+        + ` – ${formatMusicalPosition(region.endWindow - 1, zOrderOffset, samplesPerBeat, beatsPerBar)}`
+        + ` (${formatTime(start)}–${formatTime(end)})`;
+    loopRow.style.display = 'flex';
+    addSectionFromLoopBtn.disabled = false;
+
+    playbackState.currentPlaybackTime = start;
+    startPlayback(start, {
+        audioBuffer: state.audioBuffer,
+        audioContext: state.audioContext!,
+        playPauseButton: playPauseButton,
+        onUpdateMarker: updateMarkerWrapper
+    });
+}
 
-    // Clear canvas
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+/**
+ * Stop looping and drop the selected region
+ * @param keepPlaying - Carry on playing from the current position if playing
+ */
+function clearLoop(keepPlaying: boolean): void {
+    const wasPlaying = keepPlaying && playbackState.isPlaying && state.audioBuffer && state.audioContext;
+    const time = wasPlaying ? getPlaybackTime(state.audioContext!) : playbackState.currentPlaybackTime;
 
-    const imageData = ctx.createImageData(canvasWidth, canvasHeight);
+    playbackState.loop = null;
+    loopSelection = null;
+    loopRow.style.display = 'none';
+    addSectionFromLoopBtn.disabled = true;
 
-    if (vizMode === 'mono') {
-        await processMonoMode(audioData!, totalWindows, windowIntervalSamples, windowSize,
-                              zOrderOffset, canvasWidth, canvasHeight, imageData);
-    } else {
-        await processRGBMode(filteredBands!, totalWindows, windowIntervalSamples, windowSize,
-                            zOrderOffset, canvasWidth, canvasHeight, imageData);
+    if (wasPlaying) {
+        startPlayback(time, {
+            audioBuffer: state.audioBuffer!,
+            audioContext: state.audioContext!,
+            playPauseButton: playPauseButton,
+            onUpdateMarker: updateMarkerWrapper
+        });
+    } else if (state.audioBuffer) {
+        updateMarkerWrapper();
     }
+}
 
-    progressFill.style.width = '100%';
-    progressText.textContent = '100%';
-
-    setTimeout(() => {
-        progressContainer.classList.remove('active');
-    }, 500);
-
-    state.isProcessing = false;
-
-    // Show playback controls after first successful process
-    floatingControls.style.display = 'block';
-    playPauseButton.disabled = false;
-    setupOverlayCanvas(canvas, markerOverlay);
-    playbackState.currentPlaybackTime = 0;
-    updateMarkerWrapper();
+/**
+ * Get the playback position, running or paused
+ * @returns Time in seconds
+ */
+function getCurrentPlaybackTime(): number {
+    return playbackState.isPlaying && state.audioContext
+        ? getPlaybackTime(state.audioContext)
+        : playbackState.currentPlaybackTime;
 }
 
 /**
- * Process audio in mono mode
+ * Seek to a time, carrying on playing if playing
+ * @param time - Time in seconds
  */
-async function processMonoMode(
-    audioData: Float32Array,
-    totalWindows: number,
-    windowIntervalSamples: number,
-    windowSize: number,
-    zOrderOffset: number,
-    canvasWidth: number,
-    canvasHeight: number,
-    imageData: ImageData
-): Promise<void> {
-    const powers: number[] = [];
-    const minPower = 0;
-    const tempMaxPower = state.maxPowerMono;
-
-    for (let i = 0; i < totalWindows; i++) {
-        const startSample = Math.round(i * windowIntervalSamples);
-        const power = calculateRMSPower(audioData, startSample, windowSize);
-        powers.push(power);
-
-        const index = i + zOrderOffset;
-        const { x, y } = getZOrderCoordinates(index, canvasWidth);
-
-        if (x < canvasWidth && y < canvasHeight) {
-            const color = powerToColor(power, minPower, tempMaxPower);
-            const pixelIndex = (y * canvasWidth + x) * 4;
-            imageData.data[pixelIndex] = color[0];
-            imageData.data[pixelIndex + 1] = color[1];
-            imageData.data[pixelIndex + 2] = color[2];
-            imageData.data[pixelIndex + 3] = color[3];
-        }
+function seekTo(time: number): void {
+    if (!state.audioBuffer) return;
 
-        if (i % 1000 === 0) {
-            ctx.putImageData(imageData, 0, 0);
-            const progress = (i / totalWindows) * 100;
-            progressFill.style.width = `${progress}%`;
-            progressText.textContent = `${Math.round(progress)}%`;
-            await new Promise(resolve => requestAnimationFrame(resolve));
-        }
+    playbackState.currentPlaybackTime = time;
+    if (playbackState.isPlaying) {
+        startPlayback(time, {
+            audioBuffer: state.audioBuffer,
+            audioContext: state.audioContext!,
+            playPauseButton: playPauseButton,
+            onUpdateMarker: updateMarkerWrapper
+        });
+    } else {
+        updateMarkerWrapper();
     }
+}
 
-    // Find max power
-    state.maxPowerMono = powers.reduce((max, p) => Math.max(max, p), 0);
-    if (state.maxPowerMono === 0) state.maxPowerMono = 1.0;
+/**
+ * Handle the transport's mark button - the first press marks a section's start, the second its end
+ */
+function handleMarkSectionClick(): void {
+    if (!state.audioBuffer) return;
 
-    state.cachedPowers = powers;
-    state.cachedRGBPowers = null;
-    state.cachedCanvasWidth = canvasWidth;
-    state.cachedCanvasHeight = canvasHeight;
-    state.cachedSamplesPerBeat = parseInt(samplesPerBeatInput.value);
-    state.cachedVizMode = 'mono';
+    const time = getCurrentPlaybackTime();
+    if (sectionMarkStart === null) {
+        sectionMarkStart = time;
+        markSectionButton.textContent = 'Mark end';
+        return;
+    }
 
-    redrawCanvas(state, canvas, zOrderOffset);
+    const start = Math.min(sectionMarkStart, time);
+    const end = Math.max(sectionMarkStart, time);
+    sectionMarkStart = null;
+    markSectionButton.textContent = 'Mark start';
+    if (end > start) addSection(start, end);
 }
 
 /**
- * Process audio in RGB mode
+ * Add a section with the next default name and color
+ * @param start - Start time in seconds
+ * @param end - End time in seconds
  */
-async function processRGBMode(
-    filteredBands: FilteredBands,
-    totalWindows: number,
-    windowIntervalSamples: number,
-    windowSize: number,
+function addSection(start: number, end: number): void {
+    const count = sections.length;
+    setSections([...sections, { name: `Section ${count + 1}`, color: getSectionColor(count), start, end }]);
+}
+
+/**
+ * Replace the sections, then redraw their list and outlines
+ * @param next - New sections
+ */
+function setSections(next: Section[]): void {
+    sections = [...next].sort((a, b) => a.start - b.start);
+    sectionMarkStart = null;
+    markSectionButton.textContent = 'Mark start';
+    renderSectionList();
+    if (state.audioBuffer && hasCachedAnalysis(state)) updateMarkerWrapper();
+}
+
+/**
+ * Build the section list: color, editable name, time range (click to seek) and delete button per section
+ */
+function renderSectionList(): void {
+    exportSectionsJsonBtn.disabled = sections.length === 0;
+    exportSectionsLabelsBtn.disabled = sections.length === 0;
+
+    if (sections.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'section-empty';
+        empty.textContent = 'No sections yet';
+        sectionList.replaceChildren(empty);
+        return;
+    }
+
+    sectionList.replaceChildren(...sections.map((section, index) => {
+        const row = document.createElement('div');
+        row.className = 'section-row';
+
+        const color = document.createElement('input');
+        color.type = 'color';
+        color.value = section.color;
+        color.title = 'Section color';
+        color.addEventListener('input', () => {
+            section.color = color.value;
+            updateMarkerWrapper();
+        });
+
+        const name = document.createElement('input');
+        name.type = 'text';
+        name.className = 'section-name';
+        name.value = section.name;
+        name.addEventListener('change', () => {
+            section.name = name.value.trim() || `Section ${index + 1}`;
+            name.value = section.name;
+        });
+
+        const time = document.createElement('button');
+        time.className = 'section-time';
+        time.textContent = `${formatTime(section.start)}–${formatTime(section.end)}`;
+        time.title = 'Seek to this section';
+        time.addEventListener('click', () => seekTo(section.start));
+
+        const remove = document.createElement('button');
+        remove.className = 'section-delete';
+        remove.textContent = '✕';
+        remove.title = 'Delete section';
+        remove.addEventListener('click', () => setSections(sections.filter(other => other !== section)));
+
+        row.append(color, name, time, remove);
+        return row;
+    }));
+}
+
+/**
+ * Handle Detect Segments click - propose segments from the shown analysis, or hide them again
+ */
+function handleDetectSegmentsClick(): void {
+    if (segments) {
+        setSegments(null);
+        return;
+    }
+    if (!hasCachedAnalysis(state) || state.isProcessing) return;
+
+    const found = segmentStructure(getSegmentationArrays(state), state.cachedSamplesPerBeat, parseInt(beatsPerBarInput.value));
+    if (found.length === 0) {
+        alert('The track is too short to segment');
+        return;
+    }
+    setSegments(found);
+}
+
+/**
+ * Handle Add as Sections click - turn the proposed segments into named sections
+ */
+function handleSegmentsToSectionsClick(): void {
+    if (!segments) return;
+
+    const duration = state.audioBuffer?.duration ?? state.audioFingerprint?.duration ?? Infinity;
+    const toTime = (beat: number) => Math.min(duration, beatToTime(beat, state.cachedTempoMap));
+    setSections([...sections, ...segments.map(segment => ({
+        name: formatSegmentLabel(segment.label),
+        color: getSegmentColor(segment.label),
+        start: toTime(segment.startBeat),
+        end: toTime(segment.endBeat)
+    }))]);
+    setSegments(null);
+}
+
+/**
+ * Show or hide proposed segments
+ * @param next - Segments to show, or null to hide them
+ */
+function setSegments(next: Segment[] | null): void {
+    segments = next;
+    detectSegmentsBtn.textContent = next ? 'Hide Segments' : 'Detect Segments';
+    segmentsToSectionsBtn.disabled = !next;
+    segmentSummary.textContent = next ? next.map(segment => formatSegmentLabel(segment.label)).join(' ') : '';
+    segmentSummary.style.display = next ? 'block' : 'none';
+    if (state.audioBuffer && hasCachedAnalysis(state)) updateMarkerWrapper();
+}
+
+/**
+ * Search for the blocks that repeat the block holding a window, or clear the search
+ * @param window - Window in the template block, or null to clear
+ */
+function setMatchTemplate(window: number | null): void {
+    matchTemplateWindow = window;
+    updateMatches();
+}
+
+/**
+ * Rerun the repetition search for the template window at the chosen block level and threshold
+ * The template is the curve tile holding the window, and beats are counted from the first beat
+ * tile, so every block compared is a tile on the canvas.
+ */
+function updateMatches(): void {
+    matchTemplate = null;
+    matches = [];
+    currentMatch = -1;
+    const arrays = hasCachedAnalysis(state) ? getSegmentationArrays(state) : [];
+    if (matchTemplateWindow !== null && arrays.length > 0) {
+        const { cachedSamplesPerBeat: samplesPerBeat } = state;
+        const blockSize = getGridBlockSize(matchLevelInput.value as GridLevel, samplesPerBeat, parseInt(beatsPerBarInput.value));
+        const zOrderOffset = getZOrderOffset();
+        matchBlockBeats = blockSize / samplesPerBeat;
+        matchFirstWindow = getFirstTileWindow(zOrderOffset, samplesPerBeat);
+        const templateBeat = (getTileStart(matchTemplateWindow, zOrderOffset, blockSize) - matchFirstWindow) / samplesPerBeat;
+        const threshold = parseFloat(matchThresholdInput.value);
+        const features = computeBeatFeatures(arrays, samplesPerBeat, matchFirstWindow);
+        if (templateBeat >= 0 && templateBeat + matchBlockBeats <= features.length) {
+            matchTemplate = { startBeat: templateBeat, similarity: 1 };
+            matches = findSimilarBlocks(features, templateBeat, matchBlockBeats, isNaN(threshold) ? 0.8 : threshold);
+        }
+    }
+
+    renderMatchList();
+    if (state.audioBuffer && hasCachedAnalysis(state)) updateMarkerWrapper();
+}
+
+/**
+ * Get the first window of a block
+ * @param block - Block in whole beats from the first beat tile
+ * @returns Window index
+ */
+function getBlockWindow(block: BlockMatch): number {
+    return matchFirstWindow + block.startBeat * state.cachedSamplesPerBeat;
+}
+
+/**
+ * Get the start time of a block
+ * @param block - Block in whole beats from the first beat tile
+ * @returns Time in seconds
+ */
+function getBlockTime(block: BlockMatch): number {
+    return Math.max(0, beatToTime(getBlockWindow(block) / state.cachedSamplesPerBeat, state.cachedTempoMap));
+}
+
+/**
+ * Show the template and its matches as a ranked list; clicking an entry seeks to it
+ */
+function renderMatchList(): void {
+    nextMatchBtn.disabled = matches.length === 0;
+    clearMatchesBtn.disabled = matchTemplateWindow === null;
+    if (matchTemplateWindow === null) {
+        matchList.style.display = 'none';
+        matchList.replaceChildren();
+        return;
+    }
+
+    matchList.style.display = 'flex';
+    const beatsPerBar = parseInt(beatsPerBarInput.value);
+    const describe = (block: BlockMatch) => {
+        const position = formatMusicalPosition(getBlockWindow(block), getZOrderOffset(), state.cachedSamplesPerBeat, beatsPerBar);
+        return `${formatTime(getBlockTime(block))} • Bar ${position}`;
+    };
+
+    const header = document.createElement('div');
+    header.className = 'section-empty';
+    header.textContent = !matchTemplate ? 'Block runs past the analysed beats'
+        : `Template ${describe(matchTemplate)} • ${matches.length} ${matches.length === 1 ? 'match' : 'matches'}`;
+
+    matchList.replaceChildren(header, ...matches.map((match, index) => {
+        const row = document.createElement('div');
+        row.className = index === currentMatch ? 'section-row match-row active' : 'section-row match-row';
+
+        const time = document.createElement('button');
+        time.className = 'section-time';
+        time.textContent = `${index + 1}. ${describe(match)}`;
+        time.title = 'Seek to this match';
+        time.addEventListener('click', () => jumpToMatch(index));
+
+        const score = document.createElement('span');
+        score.className = 'match-score';
+        score.textContent = `${Math.round(match.similarity * 100)}%`;
+
+        row.append(time, score);
+        return row;
+    }));
+}
+
+/**
+ * Seek to a match and mark it as the current one
+ * @param index - Index into matches
+ */
+function jumpToMatch(index: number): void {
+    currentMatch = index;
+    renderMatchList();
+    seekTo(getBlockTime(matches[index]));
+}
+
+/**
+ * Handle Next Match click - seek to the next match down the ranking, wrapping to the top
+ */
+function handleNextMatchClick(): void {
+    if (matches.length === 0) return;
+    jumpToMatch((currentMatch + 1) % matches.length);
+}
+
+/**
+ * Show, hide or refold the fold panel: the mean bar or phrase of the shown analysis and its spread
+ */
+function updateFoldPanel(): void {
+    const level = foldLevelInput.value;
+    const arrays = hasCachedAnalysis(state) ? getSegmentationArrays(state) : [];
+    if (level === 'off' || arrays.length === 0 || state.isProcessing) {
+        foldPanel.style.display = 'none';
+        foldedFor = null;
+        return;
+    }
+
+    const beatsPerBar = parseInt(beatsPerBarInput.value);
+    const period = getGridBlockSize(level === 'phrase' ? 'phrase' : 'bar', state.cachedSamplesPerBeat, beatsPerBar);
+    const measure = foldSpreadInput.value === 'variance' ? 'variance' : 'std';
+    const zOrderOffset = getZOrderOffset();
+    const key = JSON.stringify([period, measure, zOrderOffset, state.cachedVizMode, state.colorSettings, state.cachedBandColors]);
+    foldPanel.style.display = 'flex';
+    if (foldedFor && foldedFor.source === arrays[0] && foldedFor.curve === state.curve && foldedFor.key === key) return;
+    foldedFor = { source: arrays[0], curve: state.curve, key };
+
+    const { width, height, positions } = getFoldTileLayout(state.curve, period);
+    for (const tile of [foldMeanCanvas, foldSpreadCanvas]) {
+        tile.width = width;
+        tile.height = height;
+    }
+
+    const meanCtx = foldMeanCanvas.getContext('2d');
+    if (meanCtx) {
+        const imageData = meanCtx.createImageData(width, height);
+        renderPixels(foldPowerState(state, period, zOrderOffset), new Uint32Array(imageData.data.buffer), positions, 0);
+        meanCtx.putImageData(imageData, 0, 0);
+    }
+    const spreadCtx = foldSpreadCanvas.getContext('2d');
+    if (spreadCtx) {
+        drawFoldSpread(spreadCtx, computeFoldSpread(arrays, period, zOrderOffset, measure), positions, getColormap(state.colorSettings));
+    }
+
+    const bars = arrays[0].length / period;
+    foldSpreadTitle.textContent = measure === 'variance' ? 'Variance' : 'Std deviation';
+    foldInfo.textContent = `${Math.floor(bars)} ${level === 'phrase' ? 'phrases' : 'bars'} folded`;
+}
+
+/**
+ * Show, hide or rebuild the self-similarity panel for the shown analysis and resolution
+ */
+function updateSimilarityPanel(): void {
+    const resolution = ssmResolutionInput.value;
+    const arrays = hasCachedAnalysis(state) ? getSegmentationArrays(state) : [];
+    if (resolution === 'off' || arrays.length === 0 || state.isProcessing) {
+        ssmPanel.style.display = 'none';
+        if (similarityHover) setSimilarityHover(null);
+        return;
+    }
+
+    const beatsPerBar = parseInt(beatsPerBarInput.value);
+    const { cachedSamplesPerBeat: samplesPerBeat } = state;
+    const zOrderOffset = getZOrderOffset();
+    const { colormap, customColormap } = state.colorSettings;
+    const key = JSON.stringify([
+        resolution, beatsPerBar, samplesPerBeat, zOrderOffset, state.cachedVizMode, arrays.length, colormap, customColormap
+    ]);
+    if (!similarity || similarity.source !== arrays[0] || similarity.key !== key) {
+        // Beats and cells are tiles of the curve, so the blocks a cell compares are tiles on the canvas
+        const beatWindow = getFirstTileWindow(zOrderOffset, samplesPerBeat);
+        const beatFeatures = computeBeatFeatures(arrays, samplesPerBeat, beatWindow);
+        // Double the cell until the matrix, its image and its canvas stay a few megabytes
+        let unitBeats = resolution === 'bar' ? beatsPerBar : 1;
+        while (beatFeatures.length / unitBeats > MAX_SIMILARITY_CELLS) unitBeats *= 2;
+        const firstWindow = getFirstTileWindow(zOrderOffset, unitBeats * samplesPerBeat);
+        const features = unitBeats > 1
+            ? computeBarFeatures(beatFeatures.slice((firstWindow - beatWindow) / samplesPerBeat), unitBeats)
+            : beatFeatures;
+        similarity = {
+            source: arrays[0], key, matrix: computeSelfSimilarity(features), size: features.length, unitBeats, firstWindow
+        };
+        similarityHover = null;
+        if (similarity.size === 0) {
+            ssmPanel.style.display = 'none';
+            return;
+        }
+
+        ssmCanvas.width = similarity.size;
+        ssmCanvas.height = similarity.size;
+        const ssmCtx = ssmCanvas.getContext('2d');
+        if (ssmCtx) drawSimilarityMatrix(ssmCtx, similarity.matrix, similarity.size, getColormap(state.colorSettings));
+        const requestedBeats = resolution === 'bar' ? beatsPerBar : 1;
+        ssmInfo.textContent = unitBeats === requestedBeats
+            ? `${similarity.size} ${resolution === 'bar' ? 'bars' : 'beats'}`
+            : `${similarity.size} cells of ${unitBeats} beats`;
+    }
+
+    ssmPanel.style.display = 'flex';
+    const dpr = window.devicePixelRatio || 1;
+    ssmOverlay.width = Math.round(ssmCanvas.clientWidth * dpr);
+    ssmOverlay.height = Math.round(ssmCanvas.clientHeight * dpr);
+    drawSimilarityOverlay(getCurrentPlaybackTime());
+}
+
+/**
+ * Draw the playback crosshair and hovered cell over the self-similarity matrix
+ * @param time - Playback position in seconds
+ */
+function drawSimilarityOverlay(time: number): void {
+    if (!similarity || ssmPanel.style.display === 'none') return;
+    const ssmCtx = ssmOverlay.getContext('2d');
+    if (!ssmCtx) return;
+
+    const { cachedSamplesPerBeat: samplesPerBeat } = state;
+    const window = timeToBeat(time, state.cachedTempoMap) * samplesPerBeat;
+    const unit = Math.floor((window - similarity.firstWindow) / (similarity.unitBeats * samplesPerBeat));
+    const playing = state.audioBuffer && unit >= 0 && unit < similarity.size ? unit : null;
+    drawSimilarityCursor(ssmCtx, ssmOverlay.width / similarity.size, playing, similarityHover);
+}
+
+/**
+ * Get the matrix cell under the pointer
+ * @param e - Mouse event over the matrix
+ * @returns Cell as [row, column], or null outside the matrix
+ */
+function getSimilarityCell(e: MouseEvent): [number, number] | null {
+    if (!similarity) return null;
+    const rect = ssmOverlay.getBoundingClientRect();
+    const column = Math.floor(((e.clientX - rect.left) / rect.width) * similarity.size);
+    const row = Math.floor(((e.clientY - rect.top) / rect.height) * similarity.size);
+    if (row < 0 || column < 0 || row >= similarity.size || column >= similarity.size) return null;
+    return [row, column];
+}
+
+/**
+ * Handle pointer movement over the matrix - outline the two blocks the cell compares on the canvas
+ * @param e - Mouse event
+ */
+function handleSimilarityHover(e: MouseEvent): void {
+    const cell = getSimilarityCell(e);
+    if (cell?.[0] === similarityHover?.[0] && cell?.[1] === similarityHover?.[1]) return;
+    setSimilarityHover(cell);
+}
+
+/**
+ * Set the hovered matrix cell and redraw both views
+ * @param cell - Cell as [row, column], or null
+ */
+function setSimilarityHover(cell: [number, number] | null): void {
+    similarityHover = cell;
+    drawSimilarityOverlay(getCurrentPlaybackTime());
+    if (state.audioBuffer && hasCachedAnalysis(state)) updateMarkerWrapper();
+}
+
+/**
+ * Handle a click on the matrix - seek to the start of the cell's row
+ * @param e - Mouse event
+ */
+function handleSimilarityClick(e: MouseEvent): void {
+    const cell = getSimilarityCell(e);
+    if (!cell || !similarity) return;
+    const { cachedSamplesPerBeat: samplesPerBeat } = state;
+    const window = similarity.firstWindow + cell[0] * similarity.unitBeats * samplesPerBeat;
+    seekTo(Math.max(0, beatToTime(window / samplesPerBeat, state.cachedTempoMap)));
+}
+
+/**
+ * Handle sections file import (JSON or Audacity labels); imported sections replace the current ones
+ */
+async function handleSectionsFileChange(): Promise<void> {
+    const file = sectionsFileInput.files?.[0];
+    if (!file) return;
+
+    try {
+        const text = await file.text();
+        setSections(/\.json$/i.test(file.name) ? parseSectionsJSON(text) : parseAudacityLabels(text));
+    } catch (error) {
+        console.error('Error importing sections:', error);
+        alert(`Error importing sections: ${(error as Error).message}`);
+    }
+
+    sectionsFileInput.value = '';
+}
+
+/**
+ * Download the sections as JSON or an Audacity label track
+ * @param format - File format
+ */
+function exportSections(format: 'json' | 'labels'): void {
+    const baseName = state.trackName.replace(/\.[^.]+$/, '') || 'sections';
+    if (format === 'json') {
+        downloadBlob(new Blob([formatSectionsJSON(sections)], { type: 'application/json' }), `${baseName}.sections.json`);
+    } else {
+        downloadBlob(new Blob([formatAudacityLabels(sections)], { type: 'text/plain' }), `${baseName}.labels.txt`);
+    }
+}
+
+/**
+ * Hide the hover tooltip and same-phase highlight
+ */
+function handleCanvasLeave(): void {
+    hoverTooltip.style.display = 'none';
+    if (hoverPhase !== null) {
+        hoverPhase = null;
+        updateMarkerWrapper();
+    }
+}
+
+/**
+ * Format seconds as M:SS.mmm
+ * @param seconds - Time in seconds
+ * @returns Formatted time
+ */
+function formatPreciseTime(seconds: number): string {
+    const millis = Math.floor((seconds % 1) * 1000);
+    return `${formatTime(seconds)}.${millis.toString().padStart(3, '0')}`;
+}
+
+/**
+ * Format a window value with about four significant digits
+ * @param value - Raw value
+ * @returns Formatted value
+ */
+function formatWindowValue(value: number): string {
+    if (value === 0) return '0';
+    if (Math.abs(value) >= 1000) return value.toFixed(0);
+    return `${parseFloat(value.toPrecision(4))}`;
+}
+
+/**
+ * Handle window resize
+ */
+function handleWindowResize(): void {
+    if (state.cachedCanvasWidth && floatingControls.style.display === 'block') {
+        setupOverlayCanvas(canvas, markerOverlay);
+        updateMarkerWrapper();
+    }
+    drawFrameOverlay();
+}
+
+/**
+ * Wrapper for updateMarker with proper parameters
+ */
+function updateMarkerWrapper(): void {
+    if (!state.audioBuffer || !state.audioContext) return;
+
+    const zOrderOffset = getZOrderOffset();
+
+    const time = updateMarker({
+        audioBuffer: state.audioBuffer,
+        audioContext: state.audioContext,
+        canvas: canvas,
+        markerOverlay: markerOverlay,
+        cachedCanvasWidth: state.cachedCanvasWidth,
+        cachedCanvasHeight: state.cachedCanvasHeight,
+        seekSlider: seekSlider,
+        overlayLayers: getOverlayLayers(zOrderOffset),
+        onsetPositions: getOnsetPositions(zOrderOffset),
+        onGetPosition: (t: number) => getCanvasPositionForTime(t, {
+            tempoMap: state.cachedTempoMap,
+            cachedSamplesPerBeat: state.cachedSamplesPerBeat,
+            cachedCanvasWidth: state.cachedCanvasWidth,
+            cachedCanvasHeight: state.cachedCanvasHeight,
+            zOrderOffset: zOrderOffset,
+            curve: state.curve,
+            audioBuffer: state.audioBuffer
+        }),
+        onPausePlayback: () => pausePlayback({
+            audioContext: state.audioContext!,
+            playPauseButton: playPauseButton
+        })
+    });
+
+    drawSimilarityOverlay(time);
+
+    // Update time display
+    currentTimeDisplay.textContent = formatTime(time);
+    totalTimeDisplay.textContent = formatTime(state.audioBuffer.duration);
+
+    // Continue animation loop if playing
+    if (playbackState.isPlaying) {
+        playbackState.animationFrameId = requestAnimationFrame(updateMarkerWrapper);
+    }
+}
+
+/**
+ * Look up the grid checkbox or color input of every level
+ * @param suffix - '' for the checkboxes, 'Color' for the color inputs
+ * @returns Input per grid level
+ */
+function getGridInputs(suffix: string): Record<GridLevel, HTMLInputElement> {
+    const inputs = {} as Record<GridLevel, HTMLInputElement>;
+    for (const level of GRID_LEVELS) {
+        const name = level.charAt(0).toUpperCase() + level.slice(1);
+        inputs[level] = document.getElementById(`grid${name}${suffix}`) as HTMLInputElement;
+    }
+    return inputs;
+}
+
+/**
+ * Read the grid settings from the UI
+ * @returns Grid settings
+ */
+function getGridSettings(): GridSettings {
+    const settings: GridSettings = { enabled: {} as GridSettings['enabled'], colors: {} as GridSettings['colors'] };
+    for (const level of GRID_LEVELS) {
+        settings.enabled[level] = gridLevelInputs[level].checked;
+        settings.colors[level] = gridColorInputs[level].value;
+    }
+    return settings;
+}
+
+/**
+ * Get a layer of the marker overlay, drawing it again when its key or the view has changed
+ * @param name - Layer name
+ * @param key - Everything besides the view the layer depends on
+ * @param zOrderOffset - Z-order offset in samples
+ * @param draw - Draws the layer from the curve index per pixel, at the given overlay pixels per canvas pixel
+ * @returns Layer the size of the overlay
+ */
+function getOverlayLayer(
+    name: string,
+    key: unknown[],
+    zOrderOffset: number,
+    draw: (layerCtx: CanvasRenderingContext2D, curveIndices: Uint32Array, scale: number) => void
+): HTMLCanvasElement | null {
+    const { cachedCanvasWidth: width, cachedCanvasHeight: height } = state;
+    const fullKey = JSON.stringify([
+        ...key, zOrderOffset, getCachedWindowCount(), state.cachedSamplesPerBeat,
+        width, height, markerOverlay.width, markerOverlay.height
+    ]);
+    const cached = overlayLayers.get(name);
+    if (cached && cached.curve === state.curve && cached.key === fullKey) return cached.layer;
+
+    const layer = document.createElement('canvas');
+    layer.width = markerOverlay.width;
+    layer.height = markerOverlay.height;
+    const layerCtx = layer.getContext('2d');
+    if (!layerCtx) return null;
+
+    draw(layerCtx, getCoordinateLUT(state.curve, width, height), layer.width / width);
+    overlayLayers.set(name, { curve: state.curve, key: fullKey, layer });
+    return layer;
+}
+
+/**
+ * Get the width of thin overlay lines: at least one display pixel when the canvas is shown scaled down
+ * @returns Line width in overlay pixels
+ */
+function getOverlayLineWidth(): number {
+    return Math.max(1, markerOverlay.width / (markerOverlay.clientWidth || markerOverlay.width));
+}
+
+/**
+ * Get the layers drawn under the playback marker: beat grid, loop region and same-phase highlight
+ * @param zOrderOffset - Z-order offset in samples
+ * @returns Layers the size of the overlay, bottom first
+ */
+function getOverlayLayers(zOrderOffset: number): HTMLCanvasElement[] {
+    if (!hasCachedAnalysis(state)) return [];
+    const layers: (HTMLCanvasElement | null)[] = [];
+    const totalWindows = getCachedWindowCount();
+
+    const shownSegments = segments;
+    if (shownSegments) {
+        const fontSize = Math.max(12, markerOverlay.width / 40);
+        layers.push(getOverlayLayer('segments', [shownSegments, fontSize], zOrderOffset, (layerCtx, curveIndices, scale) => {
+            drawSegments(
+                layerCtx, curveIndices, state.cachedCanvasWidth, zOrderOffset, shownSegments,
+                state.cachedSamplesPerBeat, scale, fontSize
+            );
+        }));
+    }
+
+    const grid = getGridSettings();
+    if (GRID_LEVELS.some(level => grid.enabled[level])) {
+        const lineWidth = getOverlayLineWidth();
+        const beatsPerBar = parseInt(beatsPerBarInput.value);
+        layers.push(getOverlayLayer('grid', [grid, beatsPerBar, lineWidth], zOrderOffset, (layerCtx, curveIndices, scale) => {
+            drawBeatGrid(
+                layerCtx, curveIndices, state.cachedCanvasWidth, zOrderOffset, totalWindows,
+                state.cachedSamplesPerBeat, beatsPerBar, grid, scale, lineWidth
+            );
+        }));
+    }
+
+    if (sections.length > 0) {
+        const lineWidth = getOverlayLineWidth();
+        const ranges = sections.map(section => getSectionWindows(section, state.cachedTempoMap, state.cachedSamplesPerBeat));
+        const colors = sections.map(section => section.color);
+        layers.push(getOverlayLayer('sections', [ranges, colors, lineWidth], zOrderOffset, (layerCtx, curveIndices, scale) => {
+            drawSectionOutlines(layerCtx, curveIndices, state.cachedCanvasWidth, zOrderOffset, ranges, colors, scale, lineWidth * 2);
+        }));
+    }
+
+    const template = matchTemplate;
+    if (template) {
+        const lineWidth = getOverlayLineWidth();
+        const windowsPerBlock = matchBlockBeats * state.cachedSamplesPerBeat;
+        // Template last, so it stays on top
+        const ranges = [...matches, template].map(block => ({
+            firstWindow: getBlockWindow(block),
+            endWindow: getBlockWindow(block) + windowsPerBlock
+        }));
+        const colors = ranges.map((_, i) => i === matches.length ? MATCH_TEMPLATE_COLOR : MATCH_COLOR);
+        layers.push(getOverlayLayer('matches', [ranges, lineWidth], zOrderOffset, (layerCtx, curveIndices, scale) => {
+            drawSectionOutlines(layerCtx, curveIndices, state.cachedCanvasWidth, zOrderOffset, ranges, colors, scale, lineWidth * 2);
+        }));
+    }
+
+    const hover = similarityHover;
+    if (hover && similarity) {
+        const { unitBeats, firstWindow } = similarity;
+        const windowsPerUnit = unitBeats * state.cachedSamplesPerBeat;
+        const ranges = hover.map(unit => ({
+            firstWindow: firstWindow + unit * windowsPerUnit,
+            endWindow: firstWindow + (unit + 1) * windowsPerUnit
+        }));
+        const lineWidth = getOverlayLineWidth();
+        layers.push(getOverlayLayer('similarity', [ranges, lineWidth], zOrderOffset, (layerCtx, curveIndices, scale) => {
+            drawSectionOutlines(
+                layerCtx, curveIndices, state.cachedCanvasWidth, zOrderOffset, ranges,
+                SIMILARITY_HOVER_COLORS, scale, lineWidth * 2
+            );
+        }));
+    }
+
+    const region = loopSelection;
+    if (region) {
+        layers.push(getOverlayLayer('loop', [region], zOrderOffset, (layerCtx, curveIndices, scale) => {
+            drawLoopRegion(layerCtx, curveIndices, state.cachedCanvasWidth, zOrderOffset, region, scale);
+        }));
+    }
+
+    const phase = hoverPhase;
+    if (phase !== null) {
+        layers.push(getOverlayLayer('phase', [phase], zOrderOffset, (layerCtx, curveIndices, scale) => {
+            drawPhaseHighlight(
+                layerCtx, curveIndices, state.cachedCanvasWidth, zOrderOffset, totalWindows,
+                state.cachedSamplesPerBeat, phase, scale
+            );
+        }));
+    }
+
+    return layers.filter((layer): layer is HTMLCanvasElement => layer !== null);
+}
+
+/**
+ * Get the canvas position of every detected onset, when onset markers are shown
+ * @param zOrderOffset - Z-order offset in samples
+ * @returns Positions of the onsets on the canvas
+ */
+function getOnsetPositions(zOrderOffset: number): Coordinates[] {
+    if (!showOnsetsInput.checked || state.cachedVizMode !== 'onset' || !state.cachedPowers) return [];
+
+    if (!onsetCache || onsetCache.source !== state.cachedPowers) {
+        onsetCache = { source: state.cachedPowers, onsets: detectOnsets(state.cachedPowers, state.cachedSamplesPerBeat) };
+    }
+
+    const positions: Coordinates[] = [];
+    for (const window of onsetCache.onsets) {
+        const position = getCanvasCoordinates(
+            state.curve, window + zOrderOffset, state.cachedCanvasWidth, state.cachedCanvasHeight
+        );
+        if (position) positions.push(position);
+    }
+    return positions;
+}
+
+/**
+ * Get the tempo map to process with: the edited tempo map, or the BPM input if it is empty
+ * @returns Tempo map
+ */
+function getTempoMap(): TempoMap {
+    if (tempoMapInput.value.trim()) {
+        return parseTempoMapCSV(tempoMapInput.value);
+    }
+    return createConstantTempoMap(parseFloat(bpmInput.value));
+}
+
+/**
+ * Format the window interval (or its range across tempo segments)
+ * @param tempoMap - Tempo map
+ * @param samplesPerBeat - Windows per beat
+ * @returns Display string in milliseconds
+ */
+function formatWindowInterval(tempoMap: TempoMap, samplesPerBeat: number): string {
+    const intervals = tempoMap.map(({ bpm }) => 60000 / (bpm * samplesPerBeat));
+    const min = Math.min(...intervals);
+    const max = Math.max(...intervals);
+    return min === max ? `${min.toFixed(2)} ms` : `${min.toFixed(2)}–${max.toFixed(2)} ms`;
+}
+
+/**
+ * Handle tempo map file import (MIDI tempo track or CSV)
+ */
+async function handleTempoMapFileChange(): Promise<void> {
+    const file = tempoMapFileInput.files?.[0];
+    if (!file) return;
+
+    try {
+        const isMidi = /\.midi?$/i.test(file.name);
+        const tempoMap = isMidi
+            ? parseMidiTempoMap(await file.arrayBuffer())
+            : parseTempoMapCSV(await file.text());
+        tempoMapInput.value = formatTempoMapCSV(tempoMap);
+    } catch (error) {
+        console.error('Error importing tempo map:', error);
+        alert(`Error importing tempo map: ${(error as Error).message}`);
+    }
+
+    tempoMapFileInput.value = '';
+}
+
+/**
+ * Main audio processing function
+ * Results come from the local cache when the same audio was analysed with the same parameters;
+ * otherwise window analysis runs in a worker. Starting a new run cancels any run still in progress.
+ */
+async function processAudio(): Promise<void> {
+    if (!state.audioBuffer) return;
+
+    let tempoMap: TempoMap;
+    try {
+        tempoMap = getTempoMap();
+    } catch (error) {
+        console.error('Error parsing tempo map:', error);
+        alert(`Invalid tempo map: ${(error as Error).message}`);
+        return;
+    }
+
+    let spectralBands: SpectralBand[];
+    try {
+        spectralBands = parseBandsCSV(spectralBandsInput.value);
+    } catch (error) {
+        console.error('Error parsing band list:', error);
+        alert(`Invalid band list: ${(error as Error).message}`);
+        return;
+    }
+
+    cancelProcessing();
+    const controller = new AbortController();
+    const { signal } = controller;
+    analysisController = controller;
+    const audioBuffer = state.audioBuffer;
+
+    state.isProcessing = true;
+    drawFrameOverlay();
+    updateSimilarityPanel();
+    updateFoldPanel();
+    emptyState.style.display = 'none';
+    canvasContainer.style.display = 'flex';
+    canvas.style.display = '';
+    progressContainer.classList.add('active');
+    progressFill.style.width = '0%';
+    progressText.textContent = '0%';
+
+    const samplesPerBeat = parseInt(samplesPerBeatInput.value);
+    const subdivisionRadix = parseInt(subdivisionRadixInput.value);
+    const zOrderOffsetSeconds = parseFloat(zOrderOffsetInput.value);
+    const vizMode = getSelectedVizMode();
+    const settings: AnalysisSettings = {
+        tempoMap,
+        samplesPerBeat,
+        subdivisionRadix,
+        windowSize: parseInt(windowSizeInput.value),
+        vizMode,
+        channelSource: channelSourceInput.value as ChannelSource,
+        monoFeature: monoFeatureInput.value as WindowFeature,
+        rgbSources: rgbSourceInputs.map(input => input.value as RGBChannelSource) as AnalysisSettings['rgbSources'],
+        onsetMethod: onsetMethodInput.value as OnsetMethod,
+        lowMidCutoff: parseFloat(lowMidCutoffInput.value),
+        midHighCutoff: parseFloat(midHighCutoffInput.value),
+        spectralBands,
+        windowFunction: windowFunctionInput.value as WindowFunction,
+        driftCorrection: driftCorrectionInput.checked
+    };
+    const curve = createSelectedCurve(samplesPerBeat, subdivisionRadix);
+
+    // Update info badges
+    const badges = calculatedInfo.querySelectorAll('.info-badge');
+    badges[0].textContent = `Window: ${formatWindowInterval(tempoMap, samplesPerBeat)}`;
+
+    try {
+        const cacheKey = state.audioFingerprint
+            ? buildCacheKey(state.audioFingerprint.sha256, settings, zOrderOffsetSeconds)
+            : null;
+        let analysis = cacheKey ? await loadCachedAnalysis(cacheKey) : null;
+        signal.throwIfAborted();
+
+        if (!analysis) {
+            analysis = await analyseAudio(audioBuffer, settings, zOrderOffsetSeconds, curve, signal);
+            if (cacheKey) storeCachedAnalysis(cacheKey, analysis);
+        }
+        const { grids: gridAnalyses, tracking } = analysis;
+
+        // The last grid (drift-corrected when tracking) is shown
+        applyGridAnalysis(gridAnalyses[gridAnalyses.length - 1]);
+        state.cachedSamplesPerBeat = samplesPerBeat;
+        state.cachedSubdivisionRadix = subdivisionRadix;
+        state.cachedVizMode = vizMode;
+        state.cachedBandColors = spectralBands.map(band => band.color);
+        state.curve = curve;
+        state.cachedSettings = settings;
+
+        resizeCanvasToCache();
+        redrawCanvas(state, canvas, getZOrderOffset());
+
+        // Keep both grids for comparison
+        if (tracking) {
+            state.driftComparison = { fixed: gridAnalyses[0], corrected: gridAnalyses[1], tracking };
+            driftViewCorrectedInput.checked = true;
+            showDriftPanel();
+        } else {
+            state.driftComparison = null;
+            driftPanel.style.display = 'none';
+        }
+    } catch (error) {
+        // A cancelled run has already been cleaned up by whoever cancelled it
+        if ((error as Error).name === 'AbortError') return;
+
+        console.error('Error processing audio:', error);
+        alert('Error processing audio. Please try again.');
+        analysisController = null;
+        state.isProcessing = false;
+        progressContainer.classList.remove('active');
+        restoreCachedView();
+        return;
+    }
+
+    analysisController = null;
+    state.isProcessing = false;
+
+    progressFill.style.width = '100%';
+    progressText.textContent = '100%';
+
+    setTimeout(() => {
+        progressContainer.classList.remove('active');
+    }, 500);
+
+    // Show playback and export controls after first successful process
+    exportPanel.style.display = 'flex';
+    sectionsPanel.style.display = 'flex';
+    // Segments and matches were found in the previous analysis
+    setSegments(null);
+    setMatchTemplate(null);
+    saveSessionBtn.disabled = false;
+    showPlaybackControls();
+    drawFrameOverlay();
+    updateSimilarityPanel();
+    updateFoldPanel();
+}
+
+/**
+ * Show the playback controls with the marker at the start of the track
+ */
+function showPlaybackControls(): void {
+    floatingControls.style.display = 'block';
+    playPauseButton.disabled = false;
+    setupOverlayCanvas(canvas, markerOverlay);
+    // Loop regions are windows of the previous analysis
+    clearLoop(false);
+    playbackState.currentPlaybackTime = 0;
+    updateMarkerWrapper();
+}
+
+/**
+ * Analyse the audio: filter bands, track beats if enabled, then compute window powers (or FFT band powers) in the worker
+ * The canvas fills progressively as chunks stream in.
+ * @param audioBuffer - Decoded audio
+ * @param settings - Analysis settings
+ * @param offsetSeconds - Offset in seconds
+ * @param curve - Curve to draw the progressive image with
+ * @param signal - Abort signal
+ * @returns Analysis of each grid, with the beat-tracking result when drift correction is on
+ */
+async function analyseAudio(
+    audioBuffer: AudioBuffer,
+    settings: AnalysisSettings,
+    offsetSeconds: number,
+    curve: SpaceFillingCurve,
+    signal: AbortSignal
+): Promise<CachedAnalysis> {
+    const { tempoMap, samplesPerBeat, windowSize, vizMode } = settings;
+    const sampleRate = audioBuffer.sampleRate;
+
+    const decoded = Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => audioBuffer.getChannelData(i));
+
+    // Channels to analyse; they are transferred to the worker, so derived signals are always copies
+    let channels: Float32Array[];
+
+    if (vizMode === 'rgb') {
+        // Each color channel is its filtered band or a copy of the whole signal for a feature
+        const source = deriveChannel(decoded, settings.channelSource);
+        let bands = [source, source, source];
+        if (settings.rgbSources.includes('band')) {
+            progressText.textContent = 'Filtering...';
+            const filteredBands = await applyFrequencyFiltering(
+                source, sampleRate, settings.lowMidCutoff, settings.midHighCutoff
+            );
+            bands = [filteredBands.low, filteredBands.mid, filteredBands.high];
+            progressText.textContent = '0%';
+        }
+        channels = settings.rgbSources.map((rgbSource, i) => rgbSource === 'band' ? bands[i] : source.slice());
+    } else if (vizMode === 'balance') {
+        channels = [deriveChannel(decoded, 'left'), deriveChannel(decoded, 'right')];
+    } else {
+        // Mono, spectral bands, chroma and onsets analyse one signal
+        channels = [deriveChannel(decoded, settings.channelSource)];
+    }
+    signal.throwIfAborted();
+
+    // Optional beat-tracking pass on the full mix: the grid is then analysed both fixed and drift-corrected
+    let tracking: BeatTrackingResult | null = null;
+    if (settings.driftCorrection) {
+        progressText.textContent = 'Tracking beats...';
+        tracking = await runBeatTracking(
+            { audio: deriveChannel(decoded, 'mid'), sampleRate, tempoMap, offsetSeconds },
+            signal
+        );
+    }
+
+    // Lay out each grid: windows follow the beat through the grid's tempo map
+    const audioDuration = channels[0].length / sampleRate;
+    const gridTempoMaps = tracking ? [tempoMap, tracking.tempoMap] : [tempoMap];
+    const grids = gridTempoMaps.map(gridTempoMap => {
+        const totalWindows = countWindows(gridTempoMap, samplesPerBeat, audioDuration);
+        return {
+            tempoMap: gridTempoMap,
+            totalWindows,
+            windowStarts: computeWindowStartSamples(gridTempoMap, samplesPerBeat, sampleRate, totalWindows),
+            zOrderOffset: Math.round(timeToBeat(offsetSeconds, gridTempoMap) * samplesPerBeat),
+            canvasSize: curve.getCanvasSize(totalWindows)
+        };
+    });
+
+    // Fill the canvas progressively as chunks stream in
+    const bandColors = settings.spectralBands.map(band => band.color);
+    const badges = calculatedInfo.querySelectorAll('.info-badge');
+    let imageData: ImageData | null = null;
+    let drawnGrid = -1;
+
+    const results = await runWindowAnalysis(
+        {
+            channels,
+            grids: grids.map(grid => grid.windowStarts),
+            windowSize,
+            spectrum: vizMode === 'bands'
+                ? {
+                    windowFunction: settings.windowFunction,
+                    bandBins: computeBandBins(settings.spectralBands, windowSize, sampleRate)
+                }
+                : undefined,
+            chroma: vizMode === 'chroma' ? { pitchClasses: computeChromaBins(windowSize, sampleRate) } : undefined,
+            features: vizMode === 'rgb'
+                ? { features: settings.rgbSources.map(rgbSource => rgbSource === 'band' ? 'rms' : rgbSource), sampleRate }
+                : vizMode === 'mono' ? { features: [settings.monoFeature], sampleRate }
+                : vizMode === 'onset' ? { features: [settings.onsetMethod], sampleRate }
+                : undefined
+        },
+        (gridIndex, start, powers) => {
+            const grid = grids[gridIndex];
+            const { width, height } = grid.canvasSize;
+
+            if (gridIndex !== drawnGrid || !imageData) {
+                canvas.width = width;
+                canvas.height = height;
+                badges[1].textContent = `Canvas: ${width}×${height}`;
+                ctx.fillStyle = '#000000';
+                ctx.fillRect(0, 0, width, height);
+                imageData = ctx.createImageData(width, height);
+                drawnGrid = gridIndex;
+            }
+
+            drawAnalysisChunk(imageData, powers, start, vizMode, bandColors, grid.zOrderOffset, curve, width, height);
+            ctx.putImageData(imageData, 0, 0);
+
+            const gridProgress = (start + powers[0].length) / grid.totalWindows;
+            const progress = ((gridIndex + gridProgress) / grids.length) * 100;
+            progressFill.style.width = `${progress}%`;
+            progressText.textContent = `${Math.round(progress)}%`;
+        },
+        signal
+    );
+
+    return {
+        grids: results.map((powers, gridIndex) => buildGridAnalysis(
+            vizMode, powers, grids[gridIndex].tempoMap, samplesPerBeat
+        )),
+        tracking
+    };
+}
+
+/**
+ * Look up an analysis in the local cache; the cache is optional, so failures count as misses
+ * @param key - Cache key
+ * @returns Cached analysis, or null
+ */
+async function loadCachedAnalysis(key: string): Promise<CachedAnalysis | null> {
+    try {
+        return await getCachedAnalysis(key);
+    } catch (error) {
+        console.warn('Analysis cache unavailable:', error);
+        return null;
+    }
+}
+
+/**
+ * Store an analysis in the local cache in the background
+ * @param key - Cache key
+ * @param analysis - Analysis to store
+ */
+function storeCachedAnalysis(key: string, analysis: CachedAnalysis): void {
+    putCachedAnalysis(key, analysis)
+        .then(updateCacheStatus)
+        .catch(error => console.warn('Error caching analysis:', error));
+}
+
+/**
+ * Show how many analyses are cached and how much space they take
+ */
+async function updateCacheStatus(): Promise<void> {
+    try {
+        const { entries, bytes } = await getCacheUsage();
+        cacheStatus.textContent = entries === 0
+            ? 'Cache empty'
+            : `Cache: ${entries} ${entries === 1 ? 'analysis' : 'analyses'} • ${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+        clearCacheBtn.disabled = entries === 0;
+    } catch (error) {
+        console.warn('Analysis cache unavailable:', error);
+        cacheStatus.textContent = 'Cache unavailable';
+        clearCacheBtn.disabled = true;
+    }
+}
+
+/**
+ * Handle clear cache button click
+ */
+async function handleClearCacheClick(): Promise<void> {
+    clearCacheBtn.disabled = true;
+    try {
+        await clearAnalysisCache();
+    } catch (error) {
+        console.error('Error clearing cache:', error);
+        alert(`Error clearing cache: ${(error as Error).message}`);
+    }
+    await updateCacheStatus();
+}
+
+/**
+ * Cancel the running analysis, if any, and go back to the last complete visualization
+ */
+function cancelProcessing(): void {
+    if (!analysisController) return;
+
+    analysisController.abort();
+    analysisController = null;
+    state.isProcessing = false;
+    progressContainer.classList.remove('active');
+    restoreCachedView();
+}
+
+/**
+ * Redraw the cached visualization, or show the empty state if there is none
+ */
+function restoreCachedView(): void {
+    if (hasCachedAnalysis(state)) {
+        resizeCanvasToCache();
+        updateVisualizationWithOffset();
+    } else {
+        canvasContainer.style.display = 'none';
+        emptyState.style.display = 'flex';
+    }
+}
+
+/**
+ * Handle analysis parameter change - a running analysis no longer matches the inputs
+ */
+function handleAnalysisParameterChange(): void {
+    if (state.isProcessing) {
+        cancelProcessing();
+    }
+}
+
+/**
+ * Show the drift graph for the current beat-tracking result
+ */
+function showDriftPanel(): void {
+    if (!state.driftComparison || !state.audioFingerprint) return;
+
+    const { drift, beatTimes } = state.driftComparison.tracking;
+    driftPanel.style.display = 'flex';
+    drawDriftGraph(driftGraph, beatTimes, drift, state.audioFingerprint.duration);
+
+    const maxDrift = drift.reduce((max, d) => Math.max(max, Math.abs(d)), 0);
+    driftStats.textContent = `${beatTimes.length} beats • max drift ${(maxDrift * 1000).toFixed(0)} ms`;
+}
+
+/**
+ * Handle corrected / fixed-BPM comparison toggle - swap cached grids and redraw
+ */
+function handleDriftViewChange(): void {
+    if (!state.driftComparison || state.isProcessing) return;
+
+    const grid = driftViewCorrectedInput.checked
+        ? state.driftComparison.corrected
+        : state.driftComparison.fixed;
+
+    applyGridAnalysis(grid);
+    resizeCanvasToCache();
+    updateVisualizationWithOffset();
+}
+
+/**
+ * Build the cached analysis for one grid from the worker's window powers
+ * @param vizMode - Visualization mode the powers were computed for
+ * @param powers - Per-channel window powers (mono: [power], RGB: [low, mid, high], balance: [left, right],
+ * spectral bands: one per band, chroma: [power, C … B], onsets: [novelty])
+ * @param tempoMap - Tempo map the grid's windows follow
+ * @param samplesPerBeat - Windows per beat (onset thresholding works in beats)
+ * @returns Cached analysis with normalization maxima
+ */
+function buildGridAnalysis(
+    vizMode: VizMode,
+    powers: Float32Array[],
+    tempoMap: TempoMap,
+    samplesPerBeat: number
+): GridAnalysis {
+    if (vizMode === 'mono' || vizMode === 'onset') {
+        const values = vizMode === 'onset' ? computeOnsetStrength(powers[0], samplesPerBeat) : powers[0];
+        return {
+            cachedPowers: values,
+            cachedRGBPowers: null,
+            cachedBalance: null,
+            cachedBandPowers: null,
+            cachedChroma: null,
+            maxPowerMono: findMaxPower(values),
+            maxPowerRGB: { ...state.maxPowerRGB },
+            maxPowerBands: [...state.maxPowerBands],
+            cachedTempoMap: tempoMap
+        };
+    }
+
+    if (vizMode === 'balance') {
+        const stereo = computeStereoBalance(powers[0], powers[1]);
+        return {
+            cachedPowers: stereo.powers,
+            cachedRGBPowers: null,
+            cachedBalance: stereo.balance,
+            cachedBandPowers: null,
+            cachedChroma: null,
+            maxPowerMono: findMaxPower(stereo.powers),
+            maxPowerRGB: { ...state.maxPowerRGB },
+            maxPowerBands: [...state.maxPowerBands],
+            cachedTempoMap: tempoMap
+        };
+    }
+
+    if (vizMode === 'chroma') {
+        return {
+            cachedPowers: powers[0],
+            cachedRGBPowers: null,
+            cachedBalance: null,
+            cachedBandPowers: null,
+            cachedChroma: powers.slice(1),
+            maxPowerMono: findMaxPower(powers[0]),
+            maxPowerRGB: { ...state.maxPowerRGB },
+            maxPowerBands: [...state.maxPowerBands],
+            cachedTempoMap: tempoMap
+        };
+    }
+
+    if (vizMode === 'bands') {
+        return {
+            cachedPowers: null,
+            cachedRGBPowers: null,
+            cachedBalance: null,
+            cachedBandPowers: powers,
+            cachedChroma: null,
+            maxPowerMono: state.maxPowerMono,
+            maxPowerRGB: { ...state.maxPowerRGB },
+            maxPowerBands: powers.map(band => findMaxPower(band)),
+            cachedTempoMap: tempoMap
+        };
+    }
+
+    return {
+        cachedPowers: null,
+        cachedRGBPowers: { low: powers[0], mid: powers[1], high: powers[2] },
+        cachedBalance: null,
+        cachedBandPowers: null,
+        cachedChroma: null,
+        maxPowerMono: state.maxPowerMono,
+        maxPowerRGB: { low: findMaxPower(powers[0]), mid: findMaxPower(powers[1]), high: findMaxPower(powers[2]) },
+        maxPowerBands: [...state.maxPowerBands],
+        cachedTempoMap: tempoMap
+    };
+}
+
+/**
+ * Make a grid's cached analysis the current one
+ * @param grid - Cached analysis
+ */
+function applyGridAnalysis(grid: GridAnalysis): void {
+    state.cachedPowers = grid.cachedPowers;
+    state.cachedRGBPowers = grid.cachedRGBPowers;
+    state.cachedBalance = grid.cachedBalance;
+    state.cachedBandPowers = grid.cachedBandPowers;
+    state.cachedChroma = grid.cachedChroma;
+    state.maxPowerMono = grid.maxPowerMono;
+    state.maxPowerRGB = { ...grid.maxPowerRGB };
+    state.maxPowerBands = [...grid.maxPowerBands];
+    state.cachedTempoMap = grid.cachedTempoMap;
+}
+
+/**
+ * Draw a chunk of streamed window powers into the progressive image
+ * Colors use the previous run's normalization until the final maxima are known.
+ */
+function drawAnalysisChunk(
+    imageData: ImageData,
+    powers: Float32Array[],
+    start: number,
+    vizMode: VizMode,
+    bandColors: RGBColor[],
     zOrderOffset: number,
+    curve: SpaceFillingCurve,
     canvasWidth: number,
-    canvasHeight: number,
-    imageData: ImageData
-): Promise<void> {
-    const lowPowers: number[] = [];
-    const midPowers: number[] = [];
-    const highPowers: number[] = [];
-    const tempMaxRGB = { ...state.maxPowerRGB };
-
-    for (let i = 0; i < totalWindows; i++) {
-        const startSample = Math.round(i * windowIntervalSamples);
-
-        const lowPower = calculateRMSPower(filteredBands.low, startSample, windowSize);
-        const midPower = calculateRMSPower(filteredBands.mid, startSample, windowSize);
-        const highPower = calculateRMSPower(filteredBands.high, startSample, windowSize);
-
-        lowPowers.push(lowPower);
-        midPowers.push(midPower);
-        highPowers.push(highPower);
-
-        const index = i + zOrderOffset;
-        const { x, y } = getZOrderCoordinates(index, canvasWidth);
-
-        if (x < canvasWidth && y < canvasHeight) {
-            const pixelIndex = (y * canvasWidth + x) * 4;
-            const normalizedLow = Math.min(1, lowPower / tempMaxRGB.low);
-            const normalizedMid = Math.min(1, midPower / tempMaxRGB.mid);
-            const normalizedHigh = Math.min(1, highPower / tempMaxRGB.high);
+    canvasHeight: number
+): void {
+    // Percentiles are unknown until the analysis is complete, so chunks are normalized to the maximum
+    const { colorSettings } = state;
+    const colormap = getColormap(colorSettings);
+    const level = (value: number, max: number) => max > 0 ? scaleLevel(value / max, colorSettings) : 0;
+
+    for (let j = 0; j < powers[0].length; j++) {
+        const coords = getCanvasCoordinates(curve, start + j + zOrderOffset, canvasWidth, canvasHeight);
+        if (!coords) continue;
+
+        const pixelIndex = (coords.y * canvasWidth + coords.x) * 4;
+
+        if (vizMode === 'mono' || vizMode === 'onset') {
+            const color = powerToColor(level(powers[0][j], state.maxPowerMono), 0, 1, colormap);
+            imageData.data[pixelIndex] = color[0];
+            imageData.data[pixelIndex + 1] = color[1];
+            imageData.data[pixelIndex + 2] = color[2];
+            imageData.data[pixelIndex + 3] = color[3];
+        } else if (vizMode === 'balance') {
+            const left = powers[0][j];
+            const right = powers[1][j];
+            const combined = level(Math.sqrt((left * left + right * right) / 2), state.maxPowerMono);
+            const color = balanceToColor(left + right > 0 ? (right - left) / (left + right) : 0, combined);
+            imageData.data[pixelIndex] = color[0];
+            imageData.data[pixelIndex + 1] = color[1];
+            imageData.data[pixelIndex + 2] = color[2];
+            imageData.data[pixelIndex + 3] = 255;
+        } else if (vizMode === 'chroma') {
+            const color = chromaToColor(
+                powers.slice(1).map(pitchClass => pitchClass[j]), level(powers[0][j], state.maxPowerMono)
+            );
+            imageData.data[pixelIndex] = color[0];
+            imageData.data[pixelIndex + 1] = color[1];
+            imageData.data[pixelIndex + 2] = color[2];
+            imageData.data[pixelIndex + 3] = 255;
+        } else if (vizMode === 'bands') {
+            const levels = powers.map((band, b) => level(band[j], state.maxPowerBands[b] ?? 1));
+            const color = blendBandColors(levels, bandColors);
+            imageData.data[pixelIndex] = color[0];
+            imageData.data[pixelIndex + 1] = color[1];
+            imageData.data[pixelIndex + 2] = color[2];
+            imageData.data[pixelIndex + 3] = 255;
+        } else {
+            const normalizedLow = level(powers[0][j], state.maxPowerRGB.low);
+            const normalizedMid = level(powers[1][j], state.maxPowerRGB.mid);
+            const normalizedHigh = level(powers[2][j], state.maxPowerRGB.high);
 
             imageData.data[pixelIndex] = Math.floor(normalizedLow * 255);
             imageData.data[pixelIndex + 1] = Math.floor(normalizedMid * 255);
             imageData.data[pixelIndex + 2] = Math.floor(normalizedHigh * 255);
             imageData.data[pixelIndex + 3] = 255;
         }
+    }
+}
 
-        if (i % 1000 === 0) {
-            ctx.putImageData(imageData, 0, 0);
-            const progress = (i / totalWindows) * 100;
-            progressFill.style.width = `${progress}%`;
-            progressText.textContent = `${Math.round(progress)}%`;
-            await new Promise(resolve => requestAnimationFrame(resolve));
-        }
+/**
+ * Handle export button click - render the upscaled image with legend and download it as PNG
+ */
+async function handleExportClick(): Promise<void> {
+    if (!state.cachedSettings || !hasCachedAnalysis(state) || state.isProcessing) return;
+
+    // The drift comparison may be showing the uncorrected grid
+    const settings = {
+        ...state.cachedSettings,
+        driftCorrection: state.cachedSettings.driftCorrection && !driftViewFixedInput.checked
+    };
+
+    const offsetSeconds = parseFloat(zOrderOffsetInput.value) || 0;
+    const beatsPerBar = parseInt(beatsPerBarInput.value);
+    const curveType = state.curve.type;
+
+    exportPngBtn.disabled = true;
+    try {
+        const exportCanvas = renderExportCanvas(
+            canvas,
+            { size: parseInt(exportSizeInput.value), legend: exportLegendInput.checked },
+            {
+                title: state.trackName,
+                summary: formatExportSummary(settings, curveType, beatsPerBar, offsetSeconds),
+                settings,
+                colorSettings: state.colorSettings
+            },
+            showFrameInput.checked ? getFrameContent(getZOrderOffset()) : null
+        );
+        const metadata = buildExportMetadata(
+            state.trackName, settings, state.colorSettings, curveType, beatsPerBar, offsetSeconds
+        );
+        const blob = await canvasToPNG(exportCanvas, metadata);
+        const baseName = state.trackName.replace(/\.[^.]+$/, '') || 'visualization';
+        downloadBlob(blob, `${baseName}-structure.png`);
+    } catch (error) {
+        console.error('Error exporting image:', error);
+        alert(`Error exporting image: ${(error as Error).message}`);
+    } finally {
+        exportPngBtn.disabled = false;
     }
+}
 
-    // Find max powers
-    state.maxPowerRGB.low = lowPowers.reduce((max, p) => Math.max(max, p), 0);
-    state.maxPowerRGB.mid = midPowers.reduce((max, p) => Math.max(max, p), 0);
-    state.maxPowerRGB.high = highPowers.reduce((max, p) => Math.max(max, p), 0);
+/**
+ * Handle save session button click - download the settings and cached analysis
+ */
+async function handleSaveSessionClick(): Promise<void> {
+    if (!state.cachedSettings || !state.audioFingerprint || state.isProcessing) return;
+    if (!hasCachedAnalysis(state)) return;
+
+    // With drift correction both grids are kept so the comparison toggle still works
+    const grids: GridAnalysis[] = state.driftComparison
+        ? [state.driftComparison.fixed, state.driftComparison.corrected]
+        : [{
+            cachedPowers: state.cachedPowers,
+            cachedRGBPowers: state.cachedRGBPowers,
+            cachedBalance: state.cachedBalance,
+            cachedBandPowers: state.cachedBandPowers,
+            cachedChroma: state.cachedChroma,
+            maxPowerMono: state.maxPowerMono,
+            maxPowerRGB: { ...state.maxPowerRGB },
+            maxPowerBands: [...state.maxPowerBands],
+            cachedTempoMap: state.cachedTempoMap
+        }];
+
+    const session: SessionData = {
+        fingerprint: state.audioFingerprint,
+        settings: state.cachedSettings,
+        view: {
+            offsetSeconds: parseFloat(zOrderOffsetInput.value) || 0,
+            curveType: state.curve.type,
+            beatsPerBar: parseInt(beatsPerBarInput.value),
+            driftView: driftViewFixedInput.checked ? 'fixed' : 'corrected',
+            color: state.colorSettings
+        },
+        grids,
+        tracking: state.driftComparison?.tracking ?? null
+    };
+
+    saveSessionBtn.disabled = true;
+    try {
+        const blob = await encodeSession(session);
+        const baseName = state.audioFingerprint.name.replace(/\.[^.]+$/, '') || 'visualization';
+        downloadBlob(blob, `${baseName}${SESSION_EXTENSION}`);
+    } catch (error) {
+        console.error('Error saving session:', error);
+        alert(`Error saving session: ${(error as Error).message}`);
+    } finally {
+        saveSessionBtn.disabled = false;
+    }
+}
 
-    if (state.maxPowerRGB.low === 0) state.maxPowerRGB.low = 1.0;
-    if (state.maxPowerRGB.mid === 0) state.maxPowerRGB.mid = 1.0;
-    if (state.maxPowerRGB.high === 0) state.maxPowerRGB.high = 1.0;
+/**
+ * Handle session file selection
+ */
+async function handleSessionFileChange(): Promise<void> {
+    const file = sessionFileInput.files?.[0];
+    if (!file) return;
 
-    state.cachedRGBPowers = { low: lowPowers, mid: midPowers, high: highPowers };
-    state.cachedPowers = null;
-    state.cachedCanvasWidth = canvasWidth;
-    state.cachedCanvasHeight = canvasHeight;
-    state.cachedSamplesPerBeat = parseInt(samplesPerBeatInput.value);
-    state.cachedVizMode = 'rgb';
+    try {
+        applySession(await decodeSession(await file.arrayBuffer()));
+    } catch (error) {
+        console.error('Error opening session:', error);
+        alert(`Error opening session: ${(error as Error).message}`);
+    }
+
+    sessionFileInput.value = '';
+}
 
-    redrawCanvas(state, canvas, zOrderOffset);
+/**
+ * Restore the inputs and cached analysis from a session and redraw without reprocessing
+ * The loaded audio is kept if the session was made from it; otherwise playback waits for it.
+ * @param session - Decoded session
+ */
+function applySession(session: SessionData): void {
+    const { settings, view, grids, tracking, fingerprint } = session;
+    if (grids.length === 0) {
+        throw new Error('Session contains no analysis');
+    }
+
+    cancelProcessing();
+    if (playbackState.isPlaying && state.audioContext) {
+        pausePlayback({
+            audioContext: state.audioContext,
+            playPauseButton: playPauseButton
+        });
+    }
+
+    // Analysis inputs
+    if (settings.tempoMap.length === 1) {
+        bpmInput.value = `${settings.tempoMap[0].bpm}`;
+        tempoMapInput.value = '';
+    } else {
+        tempoMapInput.value = formatTempoMapCSV(settings.tempoMap);
+    }
+    subdivisionRadixInput.value = `${settings.subdivisionRadix}`;
+    handleSubdivisionChange();
+    samplesPerBeatInput.value = `${settings.samplesPerBeat}`;
+    windowSizeInput.value = `${settings.windowSize}`;
+    for (const input of vizModeInputs) {
+        input.checked = input.value === settings.vizMode;
+    }
+    channelSourceInput.value = settings.channelSource;
+    monoFeatureInput.value = settings.monoFeature;
+    rgbSourceInputs.forEach((input, i) => { input.value = settings.rgbSources[i]; });
+    onsetMethodInput.value = settings.onsetMethod;
+    handleModeChange();
+    lowMidCutoffInput.value = `${settings.lowMidCutoff}`;
+    midHighCutoffInput.value = `${settings.midHighCutoff}`;
+    updateFilterDisplays();
+    spectralBandsInput.value = formatBandsCSV(settings.spectralBands);
+    windowFunctionInput.value = settings.windowFunction;
+    driftCorrectionInput.checked = settings.driftCorrection;
+
+    // View inputs
+    zOrderOffsetInput.value = view.offsetSeconds.toFixed(3);
+    if (view.offsetSeconds >= -2 && view.offsetSeconds <= 2) {
+        zOrderOffsetSlider.value = view.offsetSeconds.toFixed(3);
+    }
+    curveTypeInput.value = view.curveType;
+    beatsPerBarInput.value = `${view.beatsPerBar}`;
+    applyColorSettings(view.color);
+
+    // Cached analysis
+    state.driftComparison = tracking && grids.length === 2
+        ? { fixed: grids[0], corrected: grids[1], tracking }
+        : null;
+    const showFixed = state.driftComparison !== null && view.driftView === 'fixed';
+    applyGridAnalysis(showFixed ? grids[0] : grids[grids.length - 1]);
+    driftViewFixedInput.checked = showFixed;
+    driftViewCorrectedInput.checked = !showFixed;
+    state.cachedSamplesPerBeat = settings.samplesPerBeat;
+    state.cachedSubdivisionRadix = settings.subdivisionRadix;
+    state.cachedVizMode = settings.vizMode;
+    state.cachedBandColors = settings.spectralBands.map(band => band.color);
+    state.curve = createSelectedCurve(settings.samplesPerBeat, settings.subdivisionRadix);
+    state.cachedSettings = settings;
+
+    const keepAudio = state.audioBuffer !== null && state.audioFingerprint?.sha256 === fingerprint.sha256;
+    if (!keepAudio) {
+        state.audioBuffer = null;
+        state.audioFingerprint = fingerprint;
+        state.trackName = fingerprint.name;
+    }
+
+    // Show the restored visualization
+    emptyState.style.display = 'none';
+    canvasContainer.style.display = 'flex';
+    canvas.style.display = '';
+    resizeCanvasToCache();
+    redrawCanvas(state, canvas, getZOrderOffset());
+    drawFrameOverlay();
+    updateSimilarityPanel();
+    updateFoldPanel();
+
+    const badges = calculatedInfo.querySelectorAll('.info-badge');
+    badges[0].textContent = `Window: ${formatWindowInterval(settings.tempoMap, settings.samplesPerBeat)}`;
+
+    if (state.driftComparison) {
+        showDriftPanel();
+    } else {
+        driftPanel.style.display = 'none';
+    }
+    exportPanel.style.display = 'flex';
+    sectionsPanel.style.display = 'flex';
+    // Segments and matches were found in the previous analysis
+    setSegments(null);
+    setMatchTemplate(null);
+    saveSessionBtn.disabled = false;
+    floatingControls.style.display = 'block';
+
+    if (keepAudio) {
+        showPlaybackControls();
+        return;
+    }
+
+    // Without audio the view can be explored, but not played or reprocessed
+    playPauseButton.disabled = true;
+    processButton.disabled = true;
+    detectBpmButton.disabled = true;
+    audioFileInput.value = '';
+    fileInfo.style.display = 'none';
+    fileDropZone.style.display = 'block';
+    markerOverlay.getContext('2d')?.clearRect(0, 0, markerOverlay.width, markerOverlay.height);
+    currentTimeDisplay.textContent = formatTime(0);
+    totalTimeDisplay.textContent = formatTime(fingerprint.duration);
+    setSessionAwaitingAudio(true);
+}
+
+/**
+ * Track whether a session is waiting for its audio and show which file it needs
+ * @param awaiting - Whether the session's audio is missing
+ */
+function setSessionAwaitingAudio(awaiting: boolean): void {
+    sessionAwaitingAudio = awaiting;
+    sessionStatus.style.display = awaiting ? 'block' : 'none';
+    if (awaiting && state.audioFingerprint) {
+        const { name, duration } = state.audioFingerprint;
+        sessionStatus.textContent = `Session loaded • Open ${name} (${formatTime(duration)}) to enable playback`;
+    }
 }
 
 /**
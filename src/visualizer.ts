@@ -1,91 +1,364 @@
 // Visualization and Canvas Rendering
 // Handles color mapping and canvas drawing
 
+import { findPercentilePower } from './audio-processor.js';
+import { getColormap, scaleLevel } from './colormaps.js';
 import { viridisMap } from './constants.js';
-import { getZOrderCoordinates } from './z-order.js';
-import type { AppState, RGBAColor } from './types.js';
+import { buildCoordinateLUT } from './curves.js';
+import type { AppState, MaxPowerRGB, RGBAColor, RGBColor, SpaceFillingCurve } from './types.js';
+
+// Stereo balance colors: hard left, center and hard right
+const BALANCE_LEFT: RGBColor = [40, 140, 255];
+const BALANCE_CENTER: RGBColor = [255, 255, 255];
+const BALANCE_RIGHT: RGBColor = [255, 120, 30];
 
 /**
- * Convert power value to color using Viridis colormap
+ * Convert power value to color using a colormap (Viridis by default)
  * @param power - Power value to convert
  * @param minPower - Minimum power in range
  * @param maxPower - Maximum power in range
+ * @param colormap - 256-entry colormap table
  * @returns RGBA color array
  */
-export function powerToColor(power: number, minPower: number, maxPower: number): RGBAColor {
+export function powerToColor(power: number, minPower: number, maxPower: number, colormap: RGBColor[] = viridisMap): RGBAColor {
     // Handle edge case where all powers are the same
     if (minPower === maxPower) {
-        const [r, g, b] = viridisMap[128]; // Use middle color
+        const [r, g, b] = colormap[128]; // Use middle color
         return [r, g, b, 255];
     }
 
     const normalized = (power - minPower) / (maxPower - minPower);
     const index = Math.floor(Math.max(0, Math.min(1, normalized)) * 255);
-    const [r, g, b] = viridisMap[index];
+    const [r, g, b] = colormap[index];
     return [r, g, b, 255];
 }
 
 /**
- * Redraw canvas using cached power data with current Z-order offset
- * @param state - Application state containing cached data and settings
- * @param canvas - Target canvas element
- * @param zOrderOffset - Z-order offset in samples
+ * Convert a pan position and level to a stereo balance color
+ * Hue runs from blue (left) through white (center) to orange (right); brightness follows the level.
+ * @param pan - Pan position from -1 (left) to 1 (right)
+ * @param level - Normalized power (0-1)
+ * @returns RGB color
  */
-export function redrawCanvas(state: AppState, canvas: HTMLCanvasElement, zOrderOffset: number): void {
-    const { cachedPowers, cachedRGBPowers, cachedCanvasWidth, cachedCanvasHeight, cachedVizMode, maxPowerMono, maxPowerRGB } = state;
+export function balanceToColor(pan: number, level: number): RGBColor {
+    const side = pan < 0 ? BALANCE_LEFT : BALANCE_RIGHT;
+    const amount = Math.min(1, Math.abs(pan));
+    const brightness = Math.max(0, Math.min(1, level));
+    const mix = (c: number) => Math.floor((BALANCE_CENTER[c] + (side[c] - BALANCE_CENTER[c]) * amount) * brightness);
+    return [mix(0), mix(1), mix(2)];
+}
 
-    if (!cachedPowers && !cachedRGBPowers) return;
+/**
+ * Convert HSV to RGB
+ * @param hue - Hue in degrees
+ * @param saturation - Saturation (0-1)
+ * @param value - Value (0-1)
+ * @returns RGB color
+ */
+export function hsvToRGB(hue: number, saturation: number, value: number): RGBColor {
+    const channel = (n: number) => {
+        const k = (n + hue / 60) % 6;
+        return Math.round(255 * (value - value * saturation * Math.max(0, Math.min(k, 4 - k, 1))));
+    };
+    return [channel(5), channel(3), channel(1)];
+}
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+/**
+ * Convert a chroma vector and level to a pitch-class color
+ * Hue follows the dominant pitch class around the circle from C (red), saturation how much it
+ * stands out from the other classes, and brightness the level.
+ * @param chroma - Power per pitch class, C first
+ * @param level - Normalized power (0-1)
+ * @returns RGB color
+ */
+export function chromaToColor(chroma: ArrayLike<number>, level: number): RGBColor {
+    let dominant = 0, peak = 0, total = 0;
+    for (let pc = 0; pc < chroma.length; pc++) {
+        total += chroma[pc];
+        if (chroma[pc] > peak) {
+            peak = chroma[pc];
+            dominant = pc;
+        }
+    }
+    const strength = peak > 0 ? 1 - total / chroma.length / peak : 0;
+    return hsvToRGB(dominant * 30, strength, Math.max(0, Math.min(1, level)));
+}
 
-    // Create new image data
-    const imageData = ctx.createImageData(cachedCanvasWidth, cachedCanvasHeight);
+/**
+ * Blend band colors by their levels
+ * The hue is the level-weighted mix of the band colors; the brightness follows the strongest band.
+ * @param levels - Normalized level per band (0-1)
+ * @param colors - Color per band
+ * @returns RGB color
+ */
+export function blendBandColors(levels: ArrayLike<number>, colors: RGBColor[]): RGBColor {
+    let r = 0, g = 0, b = 0, total = 0, peak = 0;
+    for (let i = 0; i < levels.length; i++) {
+        const level = Math.max(0, Math.min(1, levels[i]));
+        r += colors[i][0] * level;
+        g += colors[i][1] * level;
+        b += colors[i][2] * level;
+        total += level;
+        peak = Math.max(peak, level);
+    }
+    if (total === 0) return [0, 0, 0];
+    const scale = peak / total;
+    return [Math.floor(r * scale), Math.floor(g * scale), Math.floor(b * scale)];
+}
+
+// Cached pixel -> curve index table; rebuilt only when the curve or canvas size changes
+let coordinateLUT: { curve: SpaceFillingCurve; width: number; height: number; indices: Uint32Array } | null = null;
+
+// Byte order of the platform, which decides how RGBA bytes pack into a Uint32 pixel
+const LITTLE_ENDIAN = new Uint8Array(new Uint32Array([1]).buffer)[0] === 1;
+
+/**
+ * Pack an opaque color into a Uint32 in ImageData byte order
+ * @param r - Red (0-255)
+ * @param g - Green (0-255)
+ * @param b - Blue (0-255)
+ * @returns Packed pixel value
+ */
+export function packPixel(r: number, g: number, b: number): number {
+    return LITTLE_ENDIAN
+        ? ((255 << 24) | (b << 16) | (g << 8) | r) >>> 0
+        : ((r << 24) | (g << 16) | (b << 8) | 255) >>> 0;
+}
+
+/**
+ * Get the pixel -> curve index table for a canvas, reusing the cached one when possible
+ * @param curve - Curve layout
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @returns Curve index per pixel
+ */
+export function getCoordinateLUT(curve: SpaceFillingCurve, width: number, height: number): Uint32Array {
+    if (!coordinateLUT || coordinateLUT.curve !== curve || coordinateLUT.width !== width || coordinateLUT.height !== height) {
+        coordinateLUT = { curve, width, height, indices: buildCoordinateLUT(curve, width, height) };
+    }
+    return coordinateLUT.indices;
+}
+
+export type PowerState = Pick<AppState,
+    'cachedPowers' | 'cachedRGBPowers' | 'cachedBalance' | 'cachedBandPowers' | 'cachedBandColors' |
+    'cachedChroma' | 'cachedVizMode' | 'maxPowerMono' | 'maxPowerRGB' | 'maxPowerBands' | 'colorSettings'>;
+
+// Cached packed color per window; rebuilt only when powers, mode, normalization or color settings change
+let windowColors: { source: Float32Array; vizMode: string; colorKey: string; colors: Uint32Array } | null = null;
+
+// Percentile normalization maxima per window data array, so changing colors back and forth does not re-sort
+const percentileCache = new WeakMap<Float32Array, Map<number, number>>();
+
+/**
+ * Get the value an array is normalized to: its maximum, or a percentile of it
+ * @param values - Window data
+ * @param max - Maximum of the data
+ * @param percentile - Normalization percentile (100 = maximum)
+ * @returns Normalization maximum
+ */
+export function getNormalizationMax(values: Float32Array, max: number, percentile: number): number {
+    if (percentile >= 100) return max;
+    let maxima = percentileCache.get(values);
+    if (!maxima) {
+        maxima = new Map();
+        percentileCache.set(values, maxima);
+    }
+    let value = maxima.get(percentile);
+    if (value === undefined) {
+        value = findPercentilePower(values, percentile);
+        maxima.set(percentile, value);
+    }
+    return value;
+}
+
+/**
+ * Get the packed color of every window, reusing the cached colors when possible
+ * @param state - Cached power data and visualization mode
+ * @returns Packed pixel per window, or null if there is no data for the mode
+ */
+function getWindowColors(state: PowerState): Uint32Array | null {
+    const {
+        cachedPowers, cachedRGBPowers, cachedBalance, cachedBandPowers, cachedBandColors, cachedChroma,
+        cachedVizMode, maxPowerMono, maxPowerRGB, maxPowerBands, colorSettings
+    } = state;
+    const source = cachedVizMode === 'rgb' ? cachedRGBPowers && cachedRGBPowers.low
+        : cachedVizMode === 'bands' ? cachedBandPowers && cachedBandPowers[0]
+        : cachedPowers;
+    if (!source) return null;
+
+    // Normalization maxima of the mode's arrays at the selected percentile
+    const { percentile } = colorSettings;
+    const monoMax = cachedPowers ? getNormalizationMax(cachedPowers, maxPowerMono, percentile) : maxPowerMono;
+    const rgbMax: MaxPowerRGB = cachedVizMode === 'rgb' && cachedRGBPowers
+        ? {
+            low: getNormalizationMax(cachedRGBPowers.low, maxPowerRGB.low, percentile),
+            mid: getNormalizationMax(cachedRGBPowers.mid, maxPowerRGB.mid, percentile),
+            high: getNormalizationMax(cachedRGBPowers.high, maxPowerRGB.high, percentile)
+        }
+        : maxPowerRGB;
+    const bandMax = cachedVizMode === 'bands' && cachedBandPowers
+        ? cachedBandPowers.map((band, i) => getNormalizationMax(band, maxPowerBands[i], percentile))
+        : maxPowerBands;
 
-    // Clear to black
-    for (let i = 0; i < imageData.data.length; i += 4) {
-        imageData.data[i + 3] = 255; // Set alpha to opaque
+    const colorKey = JSON.stringify([
+        cachedVizMode === 'rgb' ? rgbMax : cachedVizMode === 'bands' ? [bandMax, cachedBandColors] : monoMax,
+        colorSettings
+    ]);
+    if (windowColors && windowColors.source === source && windowColors.vizMode === cachedVizMode && windowColors.colorKey === colorKey) {
+        return windowColors.colors;
     }
 
-    if (cachedVizMode === 'mono' && cachedPowers) {
-        // Mono mode: Use Viridis colormap with normalized scale
-        const minPower = 0;
-        const maxPower = maxPowerMono;
-
-        for (let i = 0; i < cachedPowers.length; i++) {
-            const index = i + zOrderOffset;
-            const { x, y } = getZOrderCoordinates(index, cachedCanvasWidth);
-
-            if (x < cachedCanvasWidth && y < cachedCanvasHeight) {
-                const color = powerToColor(cachedPowers[i], minPower, maxPower);
-                const pixelIndex = (y * cachedCanvasWidth + x) * 4;
-                imageData.data[pixelIndex] = color[0];
-                imageData.data[pixelIndex + 1] = color[1];
-                imageData.data[pixelIndex + 2] = color[2];
-                imageData.data[pixelIndex + 3] = color[3];
+    // Silent arrays have a zero maximum; their windows stay dark
+    const level = (value: number, max: number) => max > 0 ? scaleLevel(value / max, colorSettings) : 0;
+    const colors = new Uint32Array(source.length);
+    if ((cachedVizMode === 'mono' || cachedVizMode === 'onset') && cachedPowers) {
+        // Mono and onset modes: colormap lookup of the scaled level
+        const colormap = Uint32Array.from(getColormap(colorSettings), ([r, g, b]) => packPixel(r, g, b));
+        for (let i = 0; i < colors.length; i++) {
+            colors[i] = colormap[Math.floor(level(cachedPowers[i], monoMax) * 255)];
+        }
+    } else if (cachedVizMode === 'balance' && cachedPowers && cachedBalance) {
+        // Balance mode: hue from pan position, brightness from combined power
+        for (let i = 0; i < colors.length; i++) {
+            const [r, g, b] = balanceToColor(cachedBalance[i], level(cachedPowers[i], monoMax));
+            colors[i] = packPixel(r, g, b);
+        }
+    } else if (cachedVizMode === 'chroma' && cachedPowers && cachedChroma) {
+        // Chroma mode: hue from the dominant pitch class, brightness from RMS power
+        const chroma = new Float32Array(12);
+        for (let i = 0; i < colors.length; i++) {
+            for (let pc = 0; pc < 12; pc++) chroma[pc] = cachedChroma[pc][i];
+            const [r, g, b] = chromaToColor(chroma, level(cachedPowers[i], monoMax));
+            colors[i] = packPixel(r, g, b);
+        }
+    } else if (cachedVizMode === 'bands' && cachedBandPowers) {
+        // Spectral bands: normalize each band by its max power, then blend the band colors
+        const levels = new Float32Array(cachedBandPowers.length);
+        for (let i = 0; i < colors.length; i++) {
+            for (let band = 0; band < levels.length; band++) {
+                levels[band] = level(cachedBandPowers[band][i], bandMax[band]);
             }
+            const [r, g, b] = blendBandColors(levels, cachedBandColors);
+            colors[i] = packPixel(r, g, b);
         }
     } else if (cachedRGBPowers) {
-        // RGB mode: Map frequency bands to RGB channels with normalization
-        for (let i = 0; i < cachedRGBPowers.low.length; i++) {
-            const index = i + zOrderOffset;
-            const { x, y } = getZOrderCoordinates(index, cachedCanvasWidth);
-
-            if (x < cachedCanvasWidth && y < cachedCanvasHeight) {
-                const pixelIndex = (y * cachedCanvasWidth + x) * 4;
-                // Normalize each band by its max power, then scale to 0-255
-                const normalizedLow = Math.min(1, cachedRGBPowers.low[i] / maxPowerRGB.low);
-                const normalizedMid = Math.min(1, cachedRGBPowers.mid[i] / maxPowerRGB.mid);
-                const normalizedHigh = Math.min(1, cachedRGBPowers.high[i] / maxPowerRGB.high);
-
-                imageData.data[pixelIndex] = Math.floor(normalizedLow * 255);
-                imageData.data[pixelIndex + 1] = Math.floor(normalizedMid * 255);
-                imageData.data[pixelIndex + 2] = Math.floor(normalizedHigh * 255);
-                imageData.data[pixelIndex + 3] = 255;
-            }
+        // RGB mode: Normalize each band by its max power, then scale to 0-255
+        const { low, mid, high } = cachedRGBPowers;
+        for (let i = 0; i < colors.length; i++) {
+            colors[i] = packPixel(
+                Math.floor(level(low[i], rgbMax.low) * 255),
+                Math.floor(level(mid[i], rgbMax.mid) * 255),
+                Math.floor(level(high[i], rgbMax.high) * 255)
+            );
         }
     }
 
+    windowColors = { source, vizMode: cachedVizMode, colorKey, colors };
+    return colors;
+}
+
+/**
+ * Render cached power data into a packed pixel buffer
+ * Window colors are computed once; each redraw only looks up the window under
+ * every pixel, so offset scrubbing costs two table reads per pixel.
+ * @param state - Cached power data and visualization mode
+ * @param pixels - Target pixels (Uint32 view of ImageData)
+ * @param curveIndices - Curve index per pixel from getCoordinateLUT
+ * @param zOrderOffset - Z-order offset in samples
+ */
+export function renderPixels(state: PowerState, pixels: Uint32Array, curveIndices: Uint32Array, zOrderOffset: number): void {
+    const black = packPixel(0, 0, 0);
+    const colors = getWindowColors(state);
+    if (!colors) {
+        pixels.fill(black);
+        return;
+    }
+
+    const count = colors.length;
+    for (let p = 0; p < pixels.length; p++) {
+        const i = curveIndices[p] - zOrderOffset;
+        pixels[p] = i >= 0 && i < count ? colors[i] : black;
+    }
+}
+
+/**
+ * Check whether there is cached power data to draw
+ * @param state - Cached power data
+ * @returns True if any mode's window data is cached
+ */
+export function hasCachedAnalysis(state: Pick<AppState, 'cachedPowers' | 'cachedRGBPowers' | 'cachedBandPowers'>): boolean {
+    return state.cachedPowers !== null || state.cachedRGBPowers !== null || state.cachedBandPowers !== null;
+}
+
+/**
+ * Redraw canvas using cached power data with current Z-order offset and curve layout
+ * @param state - Application state containing cached data and settings
+ * @param canvas - Target canvas element
+ * @param zOrderOffset - Z-order offset in samples
+ */
+export function redrawCanvas(state: AppState, canvas: HTMLCanvasElement, zOrderOffset: number): void {
+    const { cachedCanvasWidth, cachedCanvasHeight, curve } = state;
+
+    if (!hasCachedAnalysis(state)) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const imageData = ctx.createImageData(cachedCanvasWidth, cachedCanvasHeight);
+    const pixels = new Uint32Array(imageData.data.buffer);
+    renderPixels(state, pixels, getCoordinateLUT(curve, cachedCanvasWidth, cachedCanvasHeight), zOrderOffset);
+
     // Render to canvas
     ctx.putImageData(imageData, 0, 0);
 }
+
+/**
+ * Draw beat drift (tracked minus nominal beat time) against track time
+ * @param canvas - Target canvas element
+ * @param beatTimes - Tracked beat times in seconds
+ * @param drift - Drift per beat in seconds
+ * @param duration - Track duration in seconds
+ */
+export function drawDriftGraph(canvas: HTMLCanvasElement, beatTimes: number[], drift: number[], duration: number): void {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Match intrinsic size to display size for crisp lines
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.max(1, Math.round(canvas.clientWidth * dpr));
+    canvas.height = Math.max(1, Math.round(canvas.clientHeight * dpr));
+    const { width, height } = canvas;
+
+    ctx.clearRect(0, 0, width, height);
+
+    // Symmetric vertical range around zero drift
+    const maxDrift = Math.max(0.001, drift.reduce((max, d) => Math.max(max, Math.abs(d)), 0));
+    const toX = (time: number) => (time / duration) * width;
+    const toY = (d: number) => height / 2 - (d / maxDrift) * (height / 2 - 2 * dpr);
+
+    // Zero line
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+    ctx.lineWidth = dpr;
+    ctx.beginPath();
+    ctx.moveTo(0, height / 2);
+    ctx.lineTo(width, height / 2);
+    ctx.stroke();
+
+    // Drift curve
+    ctx.strokeStyle = '#4a90e2';
+    ctx.lineWidth = 1.5 * dpr;
+    ctx.beginPath();
+    for (let k = 0; k < beatTimes.length; k++) {
+        const x = toX(beatTimes[k]);
+        const y = toY(drift[k]);
+        if (k === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+    }
+    ctx.stroke();
+
+    // Range label
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.font = `${10 * dpr}px sans-serif`;
+    ctx.textBaseline = 'top';
+    ctx.fillText(`±${(maxDrift * 1000).toFixed(0)} ms`, 4 * dpr, 2 * dpr);
+}
@@ -0,0 +1,122 @@
+// WAV Decoding
+// Pure TypeScript RIFF/WAVE reader for integer and floating-point PCM
+
+import type { DecodedAudio } from './types.js';
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Read a 4-character chunk ID
+ */
+function readFourCC(view: DataView, pos: number): string {
+    return String.fromCharCode(
+        view.getUint8(pos), view.getUint8(pos + 1), view.getUint8(pos + 2), view.getUint8(pos + 3)
+    );
+}
+
+/**
+ * Check whether data starts with a RIFF/WAVE header
+ * @param data - File contents
+ * @returns True for WAV files
+ */
+export function isWav(data: ArrayBuffer): boolean {
+    const view = new DataView(data);
+    return view.byteLength >= 12 && readFourCC(view, 0) === 'RIFF' && readFourCC(view, 8) === 'WAVE';
+}
+
+/**
+ * Decode a WAV file
+ * Supports 8/16/24/32-bit integer and 32/64-bit float PCM, including WAVE_FORMAT_EXTENSIBLE.
+ * @param data - File contents
+ * @returns Sample rate and samples per channel in [-1, 1]
+ */
+export function decodeWav(data: ArrayBuffer): DecodedAudio {
+    const view = new DataView(data);
+    if (!isWav(data)) {
+        throw new Error('Not a WAV file');
+    }
+
+    let format = 0;
+    let channelCount = 0;
+    let sampleRate = 0;
+    let bitsPerSample = 0;
+    let blockAlign = 0;
+    let dataStart = -1;
+    let dataLength = 0;
+
+    let pos = 12;
+    while (pos + 8 <= view.byteLength) {
+        const chunkId = readFourCC(view, pos);
+        const chunkLength = view.getUint32(pos + 4, true);
+        const body = pos + 8;
+
+        if (chunkId === 'fmt ') {
+            format = view.getUint16(body, true);
+            channelCount = view.getUint16(body + 2, true);
+            sampleRate = view.getUint32(body + 4, true);
+            blockAlign = view.getUint16(body + 12, true);
+            bitsPerSample = view.getUint16(body + 14, true);
+            // Extensible format: the actual format is the first field of the sub-format GUID
+            if (format === WAVE_FORMAT_EXTENSIBLE && chunkLength >= 40) {
+                format = view.getUint16(body + 24, true);
+            }
+        } else if (chunkId === 'data') {
+            dataStart = body;
+            // Streaming writers may leave the length unset; clamp to the file
+            dataLength = Math.min(chunkLength, view.byteLength - body);
+            break;
+        }
+
+        // Chunks are padded to an even length
+        pos = body + chunkLength + (chunkLength % 2);
+    }
+
+    if (channelCount === 0 || sampleRate === 0) throw new Error('WAV file has no fmt chunk');
+    if (dataStart < 0) throw new Error('WAV file has no data chunk');
+
+    const bytesPerSample = bitsPerSample / 8;
+    const readSample = getSampleReader(view, format, bitsPerSample);
+    const frameCount = Math.floor(dataLength / blockAlign);
+    const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+
+    for (let frame = 0; frame < frameCount; frame++) {
+        const framePos = dataStart + frame * blockAlign;
+        for (let c = 0; c < channelCount; c++) {
+            channels[c][frame] = readSample(framePos + c * bytesPerSample);
+        }
+    }
+
+    return { sampleRate, channels };
+}
+
+/**
+ * Get a function reading one sample at a byte position, scaled to [-1, 1]
+ * @param view - File data
+ * @param format - WAVE format code
+ * @param bitsPerSample - Sample size in bits
+ * @returns Sample reader
+ */
+function getSampleReader(view: DataView, format: number, bitsPerSample: number): (pos: number) => number {
+    if (format === WAVE_FORMAT_IEEE_FLOAT) {
+        if (bitsPerSample === 32) return (pos) => view.getFloat32(pos, true);
+        if (bitsPerSample === 64) return (pos) => view.getFloat64(pos, true);
+    } else if (format === WAVE_FORMAT_PCM) {
+        switch (bitsPerSample) {
+            case 8:
+                // 8-bit PCM is unsigned
+                return (pos) => (view.getUint8(pos) - 128) / 128;
+            case 16:
+                return (pos) => view.getInt16(pos, true) / 32768;
+            case 24:
+                return (pos) => {
+                    const value = view.getUint8(pos) | (view.getUint8(pos + 1) << 8) | (view.getInt8(pos + 2) << 16);
+                    return value / 8388608;
+                };
+            case 32:
+                return (pos) => view.getInt32(pos, true) / 2147483648;
+        }
+    }
+    throw new Error(`Unsupported WAV format ${format} with ${bitsPerSample} bits per sample`);
+}